@@ -0,0 +1,1048 @@
+// Local stand-in for the Aster futures REST API, run as its own worker
+// (`wrangler dev -c wrangler.sim.toml`) and targeted through ASTER_API_BASE.
+// It implements the fapi routes the trader uses with HMAC verification, a
+// one-way position model, resting limit / stop / take-profit orders, and
+// scriptable price paths driven from the /sim/* control routes. A listenKey
+// user-data stream at /ws/<listenKey> pushes ORDER_TRADE_UPDATE and ACCOUNT_UPDATE.
+// State lives in the isolate, so it resets whenever wrangler reloads.
+
+import type {
+  AsterAccount, AsterPositionRisk, AsterOrder, AsterOrderSide, AsterOrderType,
+  AsterUserTrade, AsterIncome, AsterIncomeType, AsterExchangeInfo, AsterKline, AsterLeverageBracket,
+  AsterOrderTradeUpdate, AsterUserStreamEvent
+} from './aster';
+
+type SimEnv = {
+  SIM_API_KEY?: string;
+  SIM_API_SECRET?: string;
+  SIM_SEED?: string;
+};
+
+// ---------- Config ----------
+type SimSymbolSpec = {
+  symbol: string;
+  price: number;        // starting price
+  tickSize: number;
+  stepSize: number;
+  minQty: number;
+  maxQty: number;
+  minNotional: number;
+  vol: number;          // random-walk volatility per minute, as a fraction
+  maxLeverage: number;  // first-bracket leverage; higher brackets halve it
+};
+
+type SimConfig = {
+  balance: number;      // starting USDT wallet balance
+  leverage: number;     // default leverage for every symbol
+  takerFee: number;
+  makerFee: number;
+  slippageBps: number;  // applied to market fills against the mid
+  depthUsd: number;     // notional resting on each level of the synthetic order book
+  fundingRate: number;  // charged every fundingIntervalMs; longs pay shorts when positive
+  fundingIntervalMs: number;
+  weightLimit: number;  // REQUEST_WEIGHT per minute, reported in exchangeInfo and headers
+  orderLimit: number;   // ORDERS per minute
+  symbols: SimSymbolSpec[];
+};
+
+const spec = (symbol: string, price: number, tickSize: number, stepSize: number, vol = 0.002, maxLeverage = 20): SimSymbolSpec =>
+  ({ symbol, price, tickSize, stepSize, minQty: stepSize, maxQty: 1_000_000, minNotional: 5, vol, maxLeverage });
+
+const DEFAULT_SIM_CONFIG: SimConfig = {
+  balance: 10_000,
+  leverage: 5,
+  takerFee: 0.0004,
+  makerFee: 0.0002,
+  slippageBps: 1,
+  depthUsd: 20_000,
+  fundingRate: 0.0001,
+  fundingIntervalMs: 8 * 60 * 60 * 1000,
+  weightLimit: 2400,
+  orderLimit: 1200,
+  symbols: [
+    spec('BTCUSDT', 65000, 0.1, 0.001, 0.002, 125),
+    spec('ETHUSDT', 3200, 0.01, 0.001, 0.002, 100),
+    spec('BNBUSDT', 580, 0.01, 0.01),
+    spec('XRPUSDT', 0.52, 0.0001, 0.1),
+    spec('DOGEUSDT', 0.12, 0.00001, 1, 0.003),
+    spec('SOLUSDT', 150, 0.01, 0.01),
+    spec('ASTERUSDT', 1.2, 0.0001, 0.1, 0.004),
+    spec('CAKEUSDT', 2.4, 0.0001, 0.1, 0.003),
+    spec('ZORAUSDT', 0.08, 0.00001, 1, 0.005),
+    spec('PUMPUSDT', 0.005, 0.000001, 1, 0.005),
+    spec('ZECUSDT', 45, 0.01, 0.01, 0.003)
+  ]
+};
+
+// ---------- State ----------
+// A price path is a list of waypoints relative to the moment it was loaded.
+// Prices are interpolated linearly between them; past the end the symbol
+// holds the last price, loops, or resumes its random walk.
+type SimPath = { startedAt: number; points: Array<{ t: number; price: number }>; after: 'hold' | 'loop' | 'walk' };
+
+type SimMarket = {
+  spec: SimSymbolSpec;
+  price: number;
+  updatedAt: number;
+  path: SimPath | null;
+  bars: Array<{ openTime: number; open: number; high: number; low: number; close: number; volume: number; quoteVolume: number; trades: number }>;
+};
+
+type SimPosition = { amt: number; entryPrice: number; leverage: number; marginType: 'cross' | 'isolated'; updateTime: number };
+
+type SimOrder = AsterOrder & { workingType: string; cumQty: string; time: number };
+
+type SimState = {
+  config: SimConfig;
+  clockSkewMs: number;  // moved forward by /sim/advance
+  wallet: number;
+  markets: Record<string, SimMarket>;
+  positions: Record<string, SimPosition>;
+  orders: SimOrder[];
+  trades: AsterUserTrade[];
+  income: AsterIncome[];
+  nextId: number;
+  countdowns: Record<string, number>;  // symbol -> sim time at which countdownCancelAll fires
+  rng: () => number;
+  usage: { minute: number; weight: number; orders: number };
+};
+
+const STEP_MS = 1000;        // random-walk resolution
+const MAX_CATCHUP_STEPS = 3600;
+const HISTORY_BARS = 500;
+
+// mulberry32: small seeded PRNG so a given SIM_SEED replays the same walk
+function seeded(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(rng: () => number): number {
+  const u = Math.max(rng(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+let state: SimState | null = null;
+// User-data stream: one listenKey per account, sockets survive /sim/reset
+let listenKey: string | null = null;
+const streams = new Set<WebSocket>();
+
+function simNow(): number {
+  return Date.now() + (state?.clockSkewMs || 0);
+}
+
+function createState(config: SimConfig, seed: number): SimState {
+  const rng = seeded(seed);
+  const now = Date.now();
+  const markets: Record<string, SimMarket> = {};
+  for (const s of config.symbols) {
+    // Walk backwards from the starting price so klines have history on the first tick
+    const bars: SimMarket['bars'] = [];
+    let p = s.price;
+    const closes: number[] = [];
+    for (let i = 0; i < HISTORY_BARS; i++) {
+      closes.push(p);
+      p = p * Math.exp(-s.vol * gaussian(rng));
+    }
+    closes.reverse();
+    const firstMinute = Math.floor(now / 60000) * 60000 - HISTORY_BARS * 60000;
+    let prev = closes[0];
+    closes.forEach((close, i) => {
+      const wick = Math.abs(close - prev) * rng();
+      const vol = 10 + rng() * 90;
+      bars.push({ openTime: firstMinute + i * 60000, open: prev, high: Math.max(prev, close) + wick, low: Math.min(prev, close) - wick, close, volume: vol, quoteVolume: vol * close, trades: Math.ceil(vol) });
+      prev = close;
+    });
+    markets[s.symbol] = { spec: s, price: s.price, updatedAt: now, path: null, bars };
+  }
+  return { config, clockSkewMs: 0, wallet: config.balance, markets, positions: {}, orders: [], trades: [], income: [], nextId: 1, countdowns: {}, rng, usage: { minute: 0, weight: 0, orders: 0 } };
+}
+
+function getState(env: SimEnv): SimState {
+  if (!state) state = createState(DEFAULT_SIM_CONFIG, Number(env.SIM_SEED || 42));
+  return state;
+}
+
+// ---------- Price model ----------
+function pathPrice(path: SimPath, at: number): number | null {
+  const pts = path.points;
+  const end = pts[pts.length - 1].t;
+  let t = at - path.startedAt;
+  if (t >= end) {
+    if (path.after === 'loop' && end > 0) t = t % end;
+    else return path.after === 'hold' ? pts[pts.length - 1].price : null;
+  }
+  if (t <= pts[0].t) return pts[0].price;
+  for (let i = 1; i < pts.length; i++) {
+    if (t <= pts[i].t) {
+      const a = pts[i - 1], b = pts[i];
+      const f = b.t === a.t ? 1 : (t - a.t) / (b.t - a.t);
+      return a.price + (b.price - a.price) * f;
+    }
+  }
+  return pts[pts.length - 1].price;
+}
+
+function recordTrade(m: SimMarket, at: number, price: number, qty: number) {
+  const minute = Math.floor(at / 60000) * 60000;
+  let bar = m.bars[m.bars.length - 1];
+  if (!bar || bar.openTime < minute) {
+    const open = bar ? bar.close : price;
+    bar = { openTime: minute, open, high: Math.max(open, price), low: Math.min(open, price), close: price, volume: 0, quoteVolume: 0, trades: 0 };
+    m.bars.push(bar);
+    if (m.bars.length > HISTORY_BARS * 4) m.bars.splice(0, m.bars.length - HISTORY_BARS * 4);
+  }
+  bar.high = Math.max(bar.high, price);
+  bar.low = Math.min(bar.low, price);
+  bar.close = price;
+  bar.volume += qty;
+  bar.quoteVolume += qty * price;
+  bar.trades += 1;
+}
+
+// Move every market forward to `now` one step at a time so resting orders
+// see the prices in between, not only the one at request time.
+function advance(s: SimState) {
+  const now = simNow();
+  for (const m of Object.values(s.markets)) {
+    const steps = Math.min(MAX_CATCHUP_STEPS, Math.floor((now - m.updatedAt) / STEP_MS));
+    const from = now - steps * STEP_MS;
+    for (let i = 1; i <= steps; i++) {
+      const at = from + i * STEP_MS;
+      const scripted = m.path ? pathPrice(m.path, at) : null;
+      if (scripted !== null) {
+        m.price = scripted;
+      } else {
+        if (m.path && m.path.after === 'walk') m.path = null;
+        m.price = m.price * Math.exp(m.spec.vol * Math.sqrt(STEP_MS / 60000) * gaussian(s.rng));
+      }
+      m.price = roundTo(m.price, m.spec.tickSize);
+      recordTrade(m, at, m.price, (m.spec.minNotional / m.price) * (1 + s.rng() * 20));
+      matchResting(s, m, at);
+      if (Math.floor(at / s.config.fundingIntervalMs) > Math.floor((at - STEP_MS) / s.config.fundingIntervalMs)) settleFunding(s, m, at);
+      const deadline = s.countdowns[m.spec.symbol];
+      if (deadline && at >= deadline) cancelAllOpen(s, m, deadline);
+    }
+    if (steps > 0) m.updatedAt = from + steps * STEP_MS;
+  }
+}
+
+// ---------- Helpers ----------
+function decimals(step: number): number {
+  const str = String(step);
+  if (str.includes('e-')) return Number(str.split('e-')[1]);
+  return (str.split('.')[1] || '').length;
+}
+
+function roundTo(value: number, step: number): number {
+  return Number((Math.round(value / step) * step).toFixed(decimals(step)));
+}
+
+function fmt(value: number, step = 0.00000001): string {
+  return value.toFixed(decimals(step));
+}
+
+function position(s: SimState, symbol: string): SimPosition {
+  if (!s.positions[symbol]) s.positions[symbol] = { amt: 0, entryPrice: 0, leverage: s.config.leverage, marginType: 'cross', updateTime: 0 };
+  return s.positions[symbol];
+}
+
+function unrealized(s: SimState, symbol: string): number {
+  const p = s.positions[symbol];
+  if (!p || p.amt === 0) return 0;
+  return (s.markets[symbol].price - p.entryPrice) * p.amt;
+}
+
+function totals(s: SimState) {
+  let upnl = 0, initialMargin = 0, maintMargin = 0;
+  for (const [sym, p] of Object.entries(s.positions)) {
+    if (p.amt === 0) continue;
+    const notional = Math.abs(p.amt) * s.markets[sym].price;
+    upnl += unrealized(s, sym);
+    initialMargin += notional / p.leverage;
+    maintMargin += notional * 0.004;
+  }
+  // Resting orders that would open exposure reserve margin too
+  let orderMargin = 0;
+  for (const o of s.orders) {
+    if (o.status !== 'NEW' || o.reduceOnly || o.closePosition || o.type !== 'LIMIT') continue;
+    orderMargin += (Number(o.origQty) * Number(o.price)) / position(s, o.symbol).leverage;
+  }
+  const marginBalance = s.wallet + upnl;
+  return { upnl, initialMargin, maintMargin, orderMargin, marginBalance, available: marginBalance - initialMargin - orderMargin };
+}
+
+function addIncome(s: SimState, symbol: string, incomeType: AsterIncomeType, amount: number, time: number, tradeId: number | '') {
+  if (amount === 0) return;
+  s.income.push({ symbol, incomeType, income: fmt(amount), asset: 'USDT', info: incomeType, time, tranId: String(s.nextId++), tradeId: String(tradeId) });
+}
+
+// Funding is paid on the position's notional at the mark; the stream only reports the balance change
+function settleFunding(s: SimState, m: SimMarket, at: number) {
+  const p = s.positions[m.spec.symbol];
+  if (!p || p.amt === 0) return;
+  const amount = -p.amt * m.price * s.config.fundingRate;
+  s.wallet += amount;
+  addIncome(s, m.spec.symbol, 'FUNDING_FEE', amount, at, '');
+  if (streams.size) emit({ e: 'ACCOUNT_UPDATE', E: at, T: at, a: { m: 'FUNDING_FEE', B: [{ a: 'USDT', wb: fmt(s.wallet), cw: fmt(s.wallet), bc: fmt(amount) }], P: [] } });
+}
+
+function nextFunding(s: SimState, at: number): number {
+  return (Math.floor(at / s.config.fundingIntervalMs) + 1) * s.config.fundingIntervalMs;
+}
+
+// ---------- Matching ----------
+class SimReject extends Error {
+  constructor(public code: number, msg: string, public status = 400) { super(msg); }
+}
+
+// ---------- User-data stream ----------
+function emit(event: AsterUserStreamEvent) {
+  const data = JSON.stringify(event);
+  for (const ws of streams) {
+    try { ws.send(data); } catch { streams.delete(ws); }
+  }
+}
+
+type SimExecution = { qty: number; price: number; tradeId: number; commission: number; realized: number; maker: boolean };
+
+function emitOrder(s: SimState, o: SimOrder, x: AsterOrderTradeUpdate['o']['x'], at: number, exec?: SimExecution) {
+  if (!streams.size) return;
+  const spec = s.markets[o.symbol].spec;
+  emit({
+    e: 'ORDER_TRADE_UPDATE', E: at, T: at,
+    o: {
+      s: o.symbol, c: o.clientOrderId, S: o.side, o: o.type, q: o.origQty, p: o.price, ap: o.avgPrice, sp: o.stopPrice,
+      x, X: o.status, i: o.orderId, l: exec ? fmt(exec.qty, spec.stepSize) : '0', z: o.executedQty, L: exec ? fmt(exec.price, spec.tickSize) : '0',
+      N: exec ? 'USDT' : undefined, n: exec ? fmt(exec.commission) : undefined, T: at, t: exec?.tradeId || 0, m: !!exec?.maker,
+      R: !!o.reduceOnly, ps: 'BOTH', cp: !!o.closePosition, rp: exec ? fmt(exec.realized) : '0'
+    }
+  });
+}
+
+function emitAccount(s: SimState, symbol: string, at: number) {
+  if (!streams.size) return;
+  const p = position(s, symbol);
+  emit({
+    e: 'ACCOUNT_UPDATE', E: at, T: at,
+    a: {
+      m: 'ORDER',
+      B: [{ a: 'USDT', wb: fmt(s.wallet), cw: fmt(s.wallet) }],
+      P: [{ s: symbol, pa: fmt(p.amt, s.markets[symbol].spec.stepSize), ep: fmt(p.entryPrice), cr: '0', up: fmt(unrealized(s, symbol)), mt: p.marginType, iw: '0', ps: 'BOTH' }]
+    }
+  });
+}
+
+// Apply a fill to the one-way position, book realized PnL and commission,
+// and record the userTrades / income rows the worker backfills from.
+function fill(s: SimState, o: SimOrder, qty: number, price: number, maker: boolean, at: number) {
+  const p = position(s, o.symbol);
+  const signed = o.side === 'BUY' ? qty : -qty;
+  let realized = 0;
+  if (p.amt !== 0 && Math.sign(p.amt) !== Math.sign(signed)) {
+    const closing = Math.min(Math.abs(p.amt), qty);
+    realized = (price - p.entryPrice) * closing * Math.sign(p.amt);
+    const rest = p.amt + signed;
+    if (Math.sign(rest) === Math.sign(p.amt) || Math.abs(rest) < 1e-12) {
+      p.amt = Math.abs(rest) < 1e-12 ? 0 : rest;
+      if (p.amt === 0) p.entryPrice = 0;
+    } else {
+      p.amt = rest;          // flipped through zero
+      p.entryPrice = price;
+    }
+  } else {
+    const next = p.amt + signed;
+    p.entryPrice = (p.entryPrice * Math.abs(p.amt) + price * qty) / Math.abs(next);
+    p.amt = next;
+  }
+  p.amt = roundTo(p.amt, s.markets[o.symbol].spec.stepSize);
+  p.updateTime = at;
+
+  const commission = qty * price * (maker ? s.config.makerFee : s.config.takerFee);
+  s.wallet += realized - commission;
+  const tradeId = s.nextId++;
+  s.trades.push({
+    id: tradeId, orderId: o.orderId, symbol: o.symbol, side: o.side, positionSide: 'BOTH', buyer: o.side === 'BUY', maker,
+    price: fmt(price, s.markets[o.symbol].spec.tickSize), qty: fmt(qty, s.markets[o.symbol].spec.stepSize), quoteQty: fmt(qty * price),
+    realizedPnl: fmt(realized), commission: fmt(commission), commissionAsset: 'USDT', time: at
+  });
+  addIncome(s, o.symbol, 'REALIZED_PNL', realized, at, tradeId);
+  addIncome(s, o.symbol, 'COMMISSION', -commission, at, tradeId);
+
+  const prevQty = Number(o.executedQty);
+  const execQty = prevQty + qty;
+  const cumQuote = Number(o.cumQuote) + qty * price;
+  o.executedQty = fmt(execQty, s.markets[o.symbol].spec.stepSize);
+  o.cumQty = o.executedQty;
+  o.cumQuote = fmt(cumQuote);
+  o.avgPrice = fmt(cumQuote / execQty, s.markets[o.symbol].spec.tickSize);
+  o.status = execQty + 1e-12 >= Number(o.origQty) ? 'FILLED' : 'PARTIALLY_FILLED';
+  o.updateTime = at;
+  emitOrder(s, o, 'TRADE', at, { qty, price, tradeId, commission, realized, maker });
+  emitAccount(s, o.symbol, at);
+}
+
+// Reduce-only orders never grow or flip the position; returns the qty allowed
+function reducible(s: SimState, o: SimOrder, qty: number): number {
+  const amt = position(s, o.symbol).amt;
+  if (amt === 0 || (o.side === 'BUY') === (amt > 0)) return 0;
+  return Math.min(qty, Math.abs(amt));
+}
+
+function marketFill(s: SimState, o: SimOrder, at: number) {
+  const m = s.markets[o.symbol];
+  const slip = (s.config.slippageBps / 10_000) * m.price;
+  const px = roundTo(o.side === 'BUY' ? m.price + slip : m.price - slip, m.spec.tickSize);
+  let qty = Number(o.origQty);
+  if (o.closePosition) qty = Math.abs(position(s, o.symbol).amt);
+  if (o.reduceOnly || o.closePosition) qty = reducible(s, o, qty);
+  if (!(qty > 0)) {
+    o.status = 'EXPIRED';
+    o.updateTime = at;
+    emitOrder(s, o, 'EXPIRED', at);
+    return;
+  }
+  if (o.closePosition) o.origQty = fmt(qty, m.spec.stepSize);
+  fill(s, o, qty, px, false, at);
+}
+
+function triggered(o: SimOrder, price: number): boolean {
+  const stop = Number(o.stopPrice);
+  // STOP triggers in the direction of the order, TAKE_PROFIT against it
+  if (o.type === 'STOP_MARKET' || o.type === 'STOP') return o.side === 'BUY' ? price >= stop : price <= stop;
+  if (o.type === 'TAKE_PROFIT_MARKET' || o.type === 'TAKE_PROFIT') return o.side === 'BUY' ? price <= stop : price >= stop;
+  return false;
+}
+
+function limitCrossed(o: SimOrder, price: number): boolean {
+  return o.side === 'BUY' ? price <= Number(o.price) : price >= Number(o.price);
+}
+
+function matchResting(s: SimState, m: SimMarket, at: number) {
+  for (const o of s.orders) {
+    if (o.symbol !== m.spec.symbol || (o.status !== 'NEW' && o.status !== 'PARTIALLY_FILLED')) continue;
+    if (o.type === 'LIMIT') {
+      if (!limitCrossed(o, m.price)) continue;
+      let qty = Number(o.origQty) - Number(o.executedQty);
+      if (o.reduceOnly) qty = reducible(s, o, qty);
+      if (qty > 0) fill(s, o, qty, Number(o.price), true, at);
+      else { o.status = 'EXPIRED'; o.updateTime = at; emitOrder(s, o, 'EXPIRED', at); }
+    } else if (triggered(o, m.price)) {
+      marketFill(s, o, at);
+    }
+  }
+  // Close-position and reduce-only stops are dropped once the position is gone
+  for (const o of s.orders) {
+    if (o.symbol !== m.spec.symbol || o.status !== 'NEW' || o.type === 'LIMIT') continue;
+    if ((o.closePosition || o.reduceOnly) && position(s, o.symbol).amt === 0) { o.status = 'EXPIRED'; o.updateTime = at; emitOrder(s, o, 'EXPIRED', at); }
+  }
+}
+
+// ---------- Request handling ----------
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(sig)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Signature covers the query string followed by the form body, minus the signature itself
+async function verifySigned(req: Request, env: SimEnv, query: string, body: string, params: URLSearchParams) {
+  const apiKey = env.SIM_API_KEY || 'sim-key';
+  const secret = env.SIM_API_SECRET || 'sim-secret';
+  const key = req.headers.get('X-MBX-APIKEY');
+  if (!key) throw new SimReject(-2014, 'API-key format invalid.', 401);
+  if (key !== apiKey) throw new SimReject(-2015, 'Invalid API-key, IP, or permissions for action.', 401);
+  const signature = params.get('signature');
+  if (!signature) throw new SimReject(-1102, "Mandatory parameter 'signature' was not sent, was empty/null, or malformed.");
+  const payload = (query + body).replace(/&?signature=[0-9a-fA-F]*/, '');
+  if ((await hmacHex(secret, payload)) !== signature.toLowerCase()) throw new SimReject(-1022, 'Signature for this request is not valid.');
+  const ts = Number(params.get('timestamp'));
+  const recvWindow = Number(params.get('recvWindow') || 5000);
+  if (!Number.isFinite(ts)) throw new SimReject(-1102, "Mandatory parameter 'timestamp' was not sent, was empty/null, or malformed.");
+  const now = simNow();
+  if (ts >= now + 1000 || now - ts > recvWindow) throw new SimReject(-1021, 'Timestamp for this request is outside of the recvWindow.');
+}
+
+// USER_STREAM routes take the API key but no signature
+function verifyKeyed(req: Request, env: SimEnv) {
+  const key = req.headers.get('X-MBX-APIKEY');
+  if (!key) throw new SimReject(-2014, 'API-key format invalid.', 401);
+  if (key !== (env.SIM_API_KEY || 'sim-key')) throw new SimReject(-2015, 'Invalid API-key, IP, or permissions for action.', 401);
+}
+
+function need(params: URLSearchParams, name: string): string {
+  const v = params.get(name);
+  if (v === null || v === '') throw new SimReject(-1102, `Mandatory parameter '${name}' was not sent, was empty/null, or malformed.`);
+  return v;
+}
+
+function market(s: SimState, params: URLSearchParams, required = true): SimMarket | null {
+  const symbol = required ? need(params, 'symbol') : params.get('symbol');
+  if (!symbol) return null;
+  const m = s.markets[symbol];
+  if (!m) throw new SimReject(-1121, 'Invalid symbol.');
+  return m;
+}
+
+function num(params: URLSearchParams, name: string): number | undefined {
+  const v = params.get(name);
+  if (v === null || v === '') return undefined;
+  const n = Number(v);
+  if (!Number.isFinite(n)) throw new SimReject(-1102, `Mandatory parameter '${name}' was not sent, was empty/null, or malformed.`);
+  return n;
+}
+
+// Values must sit on the filter grid; float noise such as 0.30000000000000004 is tolerated
+function onGrid(value: number, step: number): boolean {
+  const n = value / step;
+  return Math.abs(n - Math.round(n)) < 1e-6;
+}
+
+function bar(b: SimMarket['bars'][number], m: SimMarket): AsterKline {
+  const px = (v: number) => fmt(v, m.spec.tickSize);
+  return [b.openTime, px(b.open), px(b.high), px(b.low), px(b.close), fmt(b.volume, m.spec.stepSize), b.openTime + 59_999, fmt(b.quoteVolume), b.trades, fmt(b.volume / 2, m.spec.stepSize), fmt(b.quoteVolume / 2), '0'];
+}
+
+function ticker24h(m: SimMarket) {
+  const since = simNow() - 24 * 3600_000;
+  const recent = m.bars.filter(b => b.openTime >= since);
+  const open = recent.length ? recent[0].open : m.price;
+  const change = m.price - open;
+  return {
+    symbol: m.spec.symbol,
+    priceChange: fmt(change, m.spec.tickSize),
+    priceChangePercent: (open > 0 ? (change / open) * 100 : 0).toFixed(3),
+    lastPrice: fmt(m.price, m.spec.tickSize),
+    openPrice: fmt(open, m.spec.tickSize),
+    highPrice: fmt(Math.max(m.price, ...recent.map(b => b.high)), m.spec.tickSize),
+    lowPrice: fmt(Math.min(m.price, ...recent.map(b => b.low)), m.spec.tickSize),
+    volume: fmt(recent.reduce((a, b) => a + b.volume, 0), m.spec.stepSize),
+    quoteVolume: fmt(recent.reduce((a, b) => a + b.quoteVolume, 0)),
+    openTime: recent.length ? recent[0].openTime : simNow(),
+    closeTime: simNow(),
+    count: recent.reduce((a, b) => a + b.trades, 0)
+  };
+}
+
+function exchangeInfo(s: SimState): AsterExchangeInfo {
+  return {
+    timezone: 'UTC',
+    serverTime: simNow(),
+    rateLimits: [
+      { rateLimitType: 'REQUEST_WEIGHT', interval: 'MINUTE', intervalNum: 1, limit: s.config.weightLimit },
+      { rateLimitType: 'ORDERS', interval: 'MINUTE', intervalNum: 1, limit: s.config.orderLimit }
+    ],
+    symbols: Object.values(s.markets).map(m => ({
+      symbol: m.spec.symbol,
+      status: 'TRADING',
+      baseAsset: m.spec.symbol.replace(/USDT$/, ''),
+      quoteAsset: 'USDT',
+      pricePrecision: decimals(m.spec.tickSize),
+      quantityPrecision: decimals(m.spec.stepSize),
+      filters: [
+        { filterType: 'PRICE_FILTER', minPrice: fmt(m.spec.tickSize, m.spec.tickSize), maxPrice: '10000000', tickSize: String(m.spec.tickSize) },
+        { filterType: 'LOT_SIZE', minQty: String(m.spec.minQty), maxQty: String(m.spec.maxQty), stepSize: String(m.spec.stepSize) },
+        { filterType: 'MARKET_LOT_SIZE', minQty: String(m.spec.minQty), maxQty: String(m.spec.maxQty), stepSize: String(m.spec.stepSize) },
+        { filterType: 'MAX_NUM_ORDERS', limit: 200 },
+        { filterType: 'MAX_NUM_ALGO_ORDERS', limit: 10 },
+        { filterType: 'MIN_NOTIONAL', notional: String(m.spec.minNotional) },
+        { filterType: 'PERCENT_PRICE', multiplierUp: '1.1500', multiplierDown: '0.8500', multiplierDecimal: 4 }
+      ],
+      OrderType: ['LIMIT', 'MARKET', 'STOP', 'STOP_MARKET', 'TAKE_PROFIT', 'TAKE_PROFIT_MARKET', 'TRAILING_STOP_MARKET'],
+      timeInForce: ['GTC', 'IOC', 'FOK', 'GTX']
+    }))
+  };
+}
+
+function account(s: SimState): AsterAccount {
+  const t = totals(s);
+  const positions = Object.keys(s.markets).map(sym => {
+    const p = position(s, sym);
+    return { symbol: sym, leverage: String(p.leverage), isolated: p.marginType === 'isolated', entryPrice: fmt(p.entryPrice, s.markets[sym].spec.tickSize), positionSide: 'BOTH' as const, positionAmt: fmt(p.amt, s.markets[sym].spec.stepSize), unrealizedProfit: fmt(unrealized(s, sym)) };
+  });
+  return {
+    feeTier: 0,
+    canTrade: true,
+    totalInitialMargin: fmt(t.initialMargin + t.orderMargin),
+    totalMaintMargin: fmt(t.maintMargin),
+    totalWalletBalance: fmt(s.wallet),
+    totalUnrealizedProfit: fmt(t.upnl),
+    totalMarginBalance: fmt(t.marginBalance),
+    totalCrossWalletBalance: fmt(s.wallet),
+    availableBalance: fmt(Math.max(0, t.available)),
+    maxWithdrawAmount: fmt(Math.max(0, Math.min(s.wallet, t.available))),
+    updateTime: simNow(),
+    assets: [{ asset: 'USDT', walletBalance: fmt(s.wallet), unrealizedProfit: fmt(t.upnl), marginBalance: fmt(t.marginBalance), availableBalance: fmt(Math.max(0, t.available)) }],
+    positions
+  };
+}
+
+function positionRisk(s: SimState, only: SimMarket | null): AsterPositionRisk[] {
+  const syms = only ? [only.spec.symbol] : Object.keys(s.markets);
+  return syms.map(sym => {
+    const p = position(s, sym);
+    const m = s.markets[sym];
+    return {
+      symbol: sym,
+      positionAmt: fmt(p.amt, m.spec.stepSize),
+      entryPrice: fmt(p.entryPrice, m.spec.tickSize),
+      markPrice: fmt(m.price, m.spec.tickSize),
+      unRealizedProfit: fmt(unrealized(s, sym)),
+      liquidationPrice: '0',
+      leverage: String(p.leverage),
+      maxNotionalValue: '1000000',
+      marginType: p.marginType,
+      isolatedMargin: '0',
+      isAutoAddMargin: 'false',
+      positionSide: 'BOTH',
+      updateTime: p.updateTime
+    };
+  });
+}
+
+function brackets(m: SimMarket): AsterLeverageBracket {
+  const caps = [50_000, 250_000, 1_000_000, 5_000_000];
+  return {
+    symbol: m.spec.symbol,
+    brackets: caps.map((notionalCap, i) => ({
+      bracket: i + 1,
+      initialLeverage: Math.max(1, Math.floor(m.spec.maxLeverage / 2 ** i)),
+      notionalCap,
+      notionalFloor: i ? caps[i - 1] : 0,
+      maintMarginRatio: 0.004 * 2 ** i,
+      cum: 0
+    }))
+  };
+}
+
+function changeLeverage(s: SimState, params: URLSearchParams) {
+  const m = market(s, params)!;
+  const leverage = Number(need(params, 'leverage'));
+  if (!Number.isInteger(leverage) || leverage < 1 || leverage > m.spec.maxLeverage) throw new SimReject(-4028, `Leverage ${params.get('leverage')} is not valid`);
+  const cap = brackets(m).brackets.filter(b => b.initialLeverage >= leverage).reduce((a, b) => Math.max(a, b.notionalCap), 0);
+  const p = position(s, m.spec.symbol);
+  if (Math.abs(p.amt) * m.price > cap) throw new SimReject(-2027, 'Exceeded the maximum allowable position at current leverage.');
+  p.leverage = leverage;
+  return { leverage, maxNotionalValue: String(cap), symbol: m.spec.symbol };
+}
+
+function changeMarginType(s: SimState, params: URLSearchParams) {
+  const m = market(s, params)!;
+  const type = need(params, 'marginType');
+  if (type !== 'ISOLATED' && type !== 'CROSSED') throw new SimReject(-1130, 'Data sent for parameter \'marginType\' is not valid.');
+  const p = position(s, m.spec.symbol);
+  const next = type === 'ISOLATED' ? 'isolated' : 'cross';
+  if (p.marginType === next) throw new SimReject(-4046, 'No need to change margin type.');
+  if (s.orders.some(o => o.symbol === m.spec.symbol && (o.status === 'NEW' || o.status === 'PARTIALLY_FILLED'))) throw new SimReject(-4047, 'Margin type cannot be changed if there exists open orders.');
+  if (p.amt !== 0) throw new SimReject(-4048, 'Margin type cannot be changed if there exists position.');
+  p.marginType = next;
+  return { code: 200, msg: 'success' };
+}
+
+// The simulated account is one-way only; asking for hedge mode is rejected like any blocked switch
+function changePositionMode(params: URLSearchParams) {
+  const dual = need(params, 'dualSidePosition');
+  if (dual !== 'true' && dual !== 'false') throw new SimReject(-1130, 'Data sent for parameter \'dualSidePosition\' is not valid.');
+  if (dual === 'false') throw new SimReject(-4059, 'No need to change position side.');
+  throw new SimReject(-4068, 'Hedge mode is not simulated.');
+}
+
+// Synthetic book: the touch straddles the mid by the market-order slippage and every further
+// level sits 2 bps out with depthUsd of size
+function bookLevels(s: SimState, m: SimMarket, levels: number) {
+  const { tickSize, stepSize } = m.spec;
+  const slip = (s.config.slippageBps / 10_000) * m.price;
+  const gap = Math.max(tickSize, roundTo(m.price * 0.0002, tickSize));
+  const qty = fmt(Math.max(stepSize, roundTo(s.config.depthUsd / m.price, stepSize)), stepSize);
+  const side = (sign: number) => Array.from({ length: levels }, (_, i) => [fmt(roundTo(m.price + sign * (slip + i * gap), tickSize), tickSize), qty] as [string, string]);
+  return { bids: side(-1), asks: side(1) };
+}
+
+function findOrder(s: SimState, params: URLSearchParams): SimOrder {
+  const m = market(s, params)!;
+  const orderId = num(params, 'orderId');
+  const clientId = params.get('origClientOrderId');
+  if (orderId === undefined && !clientId) throw new SimReject(-1102, "Either 'orderId' or 'origClientOrderId' must be sent.");
+  const o = s.orders.find(x => x.symbol === m.spec.symbol && (orderId !== undefined ? x.orderId === orderId : x.clientOrderId === clientId));
+  if (!o) throw new SimReject(-2013, 'Order does not exist.');
+  return o;
+}
+
+function publicOrder(o: SimOrder): AsterOrder {
+  return { ...o };
+}
+
+function newOrder(s: SimState, params: URLSearchParams): AsterOrder {
+  const m = market(s, params)!;
+  const side = need(params, 'side') as AsterOrderSide;
+  if (side !== 'BUY' && side !== 'SELL') throw new SimReject(-1117, 'Invalid side.');
+  const type = need(params, 'type') as AsterOrderType;
+  if (!['LIMIT', 'MARKET', 'STOP_MARKET', 'TAKE_PROFIT_MARKET'].includes(type)) throw new SimReject(-1116, 'Invalid orderType.');
+  const positionSide = params.get('positionSide') || 'BOTH';
+  if (positionSide !== 'BOTH') throw new SimReject(-4061, "Order's position side does not match user's setting.");
+  const closePosition = params.get('closePosition') === 'true';
+  const reduceOnly = params.get('reduceOnly') === 'true';
+  if (closePosition && type !== 'STOP_MARKET' && type !== 'TAKE_PROFIT_MARKET') throw new SimReject(-1106, "Parameter 'closePosition' sent when not required.");
+  if (closePosition && params.get('quantity')) throw new SimReject(-4137, 'Quantity must be zero with closePosition equals true.');
+
+  let qty = 0;
+  if (!closePosition) {
+    qty = Number(need(params, 'quantity'));
+    if (!(qty > 0)) throw new SimReject(-4003, 'Quantity less than zero.');
+    if (!onGrid(qty, m.spec.stepSize)) throw new SimReject(-1111, 'Precision is over the maximum defined for this asset.');
+    qty = roundTo(qty, m.spec.stepSize);
+    if (qty < m.spec.minQty) throw new SimReject(-4004, 'Quantity less than min quantity.');
+    if (qty > m.spec.maxQty) throw new SimReject(-4005, 'Quantity greater than max quantity.');
+  }
+
+  let price = 0;
+  const timeInForce = params.get('timeInForce') || (type === 'LIMIT' ? '' : 'GTC');
+  if (type === 'LIMIT') {
+    price = Number(need(params, 'price'));
+    if (!(price > 0)) throw new SimReject(-4001, 'Price less than 0.');
+    if (!onGrid(price, m.spec.tickSize)) throw new SimReject(-4014, 'Price not increased by tick size.');
+    if (!timeInForce) throw new SimReject(-1102, "Mandatory parameter 'timeInForce' was not sent, was empty/null, or malformed.");
+    if (!['GTC', 'IOC', 'FOK', 'GTX'].includes(timeInForce)) throw new SimReject(-1115, 'Invalid timeInForce.');
+    if (price > m.price * 1.15 || price < m.price * 0.85) throw new SimReject(-4016, 'Limit price can\'t be higher or lower than 15% of the mark price.');
+  }
+  let stopPrice = 0;
+  if (type === 'STOP_MARKET' || type === 'TAKE_PROFIT_MARKET') {
+    stopPrice = Number(need(params, 'stopPrice'));
+    if (!(stopPrice > 0)) throw new SimReject(-4006, 'Stop price less than zero.');
+    if (!onGrid(stopPrice, m.spec.tickSize)) throw new SimReject(-4014, 'Price not increased by tick size.');
+  }
+
+  const refPrice = price || stopPrice || m.price;
+  if (!closePosition && !reduceOnly && qty * refPrice < m.spec.minNotional) throw new SimReject(-4164, `Order's notional must be no smaller than ${m.spec.minNotional} (unless you choose reduce only).`);
+  if (reduceOnly && type === 'MARKET' && reducible(s, { symbol: m.spec.symbol, side } as SimOrder, qty) <= 0) throw new SimReject(-2022, 'ReduceOnly Order is rejected.');
+
+  const clientOrderId = params.get('newClientOrderId') || `sim_${s.nextId}_${Math.floor(s.rng() * 1e9).toString(36)}`;
+  if (clientOrderId.length > 36) throw new SimReject(-4015, 'Client order id is not valid.');
+  if (s.orders.some(o => o.clientOrderId === clientOrderId && o.symbol === m.spec.symbol && (o.status === 'NEW' || o.status === 'PARTIALLY_FILLED'))) {
+    throw new SimReject(-2010, 'Duplicate clientOrderId.');
+  }
+
+  // Opening exposure needs initial margin plus the taker fee
+  if (!reduceOnly && !closePosition) {
+    const p = position(s, m.spec.symbol);
+    const opening = p.amt === 0 || (side === 'BUY') === (p.amt > 0) ? qty : Math.max(0, qty - Math.abs(p.amt));
+    const required = (opening * refPrice) / p.leverage + qty * refPrice * s.config.takerFee;
+    if (opening > 0 && required > totals(s).available) throw new SimReject(-2019, 'Margin is insufficient.');
+  }
+
+  const now = simNow();
+  const tick = m.spec.tickSize;
+  const o: SimOrder = {
+    orderId: s.nextId++,
+    clientOrderId,
+    symbol: m.spec.symbol,
+    status: 'NEW',
+    side,
+    positionSide: 'BOTH',
+    type,
+    origType: type,
+    price: fmt(price, tick),
+    avgPrice: fmt(0, tick),
+    stopPrice: fmt(stopPrice, tick),
+    origQty: fmt(qty, m.spec.stepSize),
+    executedQty: fmt(0, m.spec.stepSize),
+    cumQty: fmt(0, m.spec.stepSize),
+    cumQuote: '0',
+    reduceOnly,
+    closePosition,
+    timeInForce,
+    workingType: params.get('workingType') || 'CONTRACT_PRICE',
+    time: now,
+    updateTime: now
+  };
+
+  if (type === 'MARKET') {
+    marketFill(s, o, now);
+  } else if (type === 'LIMIT') {
+    const marketable = limitCrossed(o, m.price);
+    if (timeInForce === 'GTX' && marketable) {
+      o.status = 'EXPIRED';   // post-only would take liquidity
+    } else if (marketable) {
+      let q = qty;
+      if (reduceOnly) q = reducible(s, o, q);
+      if (timeInForce === 'FOK' && q < qty) o.status = 'EXPIRED';
+      else if (q > 0) fill(s, o, q, m.price, false, now);
+      else o.status = 'EXPIRED';
+      if (o.status === 'PARTIALLY_FILLED' && timeInForce === 'IOC') o.status = 'EXPIRED';
+    } else if (timeInForce === 'IOC' || timeInForce === 'FOK') {
+      o.status = 'EXPIRED';
+    }
+  } else if (triggered(o, m.price)) {
+    throw new SimReject(-2021, 'Order would immediately trigger.');
+  }
+  s.orders.push(o);
+  return publicOrder(o);
+}
+
+function cancelOrder(s: SimState, params: URLSearchParams): AsterOrder {
+  const o = findOrder(s, params);
+  if (o.status !== 'NEW' && o.status !== 'PARTIALLY_FILLED') throw new SimReject(-2011, 'Unknown order sent.');
+  o.status = 'CANCELED';
+  o.updateTime = simNow();
+  emitOrder(s, o, 'CANCELED', o.updateTime);
+  return publicOrder(o);
+}
+
+// The countdown ran out: every open order on the symbol is cancelled, conditional ones included
+function cancelAllOpen(s: SimState, m: SimMarket, at: number) {
+  delete s.countdowns[m.spec.symbol];
+  for (const o of s.orders) {
+    if (o.symbol !== m.spec.symbol || (o.status !== 'NEW' && o.status !== 'PARTIALLY_FILLED')) continue;
+    o.status = 'CANCELED';
+    o.updateTime = at;
+    emitOrder(s, o, 'CANCELED', at);
+  }
+}
+
+function countdownCancelAll(s: SimState, params: URLSearchParams) {
+  const m = market(s, params)!;
+  const ms = Number(need(params, 'countdownTime'));
+  if (!Number.isInteger(ms) || ms < 0) throw new SimReject(-1130, 'Data sent for parameter \'countdownTime\' is not valid.');
+  if (ms === 0) delete s.countdowns[m.spec.symbol];
+  else s.countdowns[m.spec.symbol] = simNow() + ms;
+  return { symbol: m.spec.symbol, countdownTime: String(ms) };
+}
+
+function timeWindow<T extends { time: number }>(rows: T[], params: URLSearchParams, defLimit: number, maxLimit: number): T[] {
+  const start = num(params, 'startTime');
+  const end = num(params, 'endTime');
+  if (start !== undefined && end !== undefined && start > end) throw new SimReject(-1023, 'Start time is greater than end time.');
+  const limit = Math.min(maxLimit, num(params, 'limit') ?? defLimit);
+  const out = rows.filter(r => (start === undefined || r.time >= start) && (end === undefined || r.time <= end));
+  // Without a start time the exchange returns the most recent rows
+  return start === undefined ? out.slice(-limit) : out.slice(0, limit);
+}
+
+// Request weights from the API doc; orders also count toward X-MBX-ORDER-COUNT
+function weightFor(method: string, path: string, params: URLSearchParams): number {
+  if (path === '/fapi/v1/ticker/24hr') return params.get('symbol') ? 1 : 40;
+  if (path === '/fapi/v1/ticker/price') return params.get('symbol') ? 1 : 2;
+  if (path === '/fapi/v1/ticker/bookTicker') return params.get('symbol') ? 2 : 5;
+  if (path === '/fapi/v1/premiumIndex') return params.get('symbol') ? 1 : 10;
+  if (path === '/fapi/v1/depth') {
+    const limit = Number(params.get('limit') || 500);
+    return limit <= 50 ? 2 : limit <= 100 ? 5 : limit <= 500 ? 10 : 20;
+  }
+  if (path === '/fapi/v1/klines') {
+    const limit = Number(params.get('limit') || 500);
+    return limit < 100 ? 1 : limit < 500 ? 2 : limit <= 1000 ? 5 : 10;
+  }
+  if (path === '/fapi/v2/account' || path === '/fapi/v2/positionRisk' || path === '/fapi/v1/userTrades') return 5;
+  if (path === '/fapi/v1/income') return 30;
+  if (path === '/fapi/v1/countdownCancelAll') return 10;
+  return 1;
+}
+
+function meter(s: SimState, weight: number, isOrder: boolean): Record<string, string> {
+  const minute = Math.floor(Date.now() / 60000);
+  if (s.usage.minute !== minute) s.usage = { minute, weight: 0, orders: 0 };
+  s.usage.weight += weight;
+  if (isOrder) s.usage.orders += 1;
+  return { 'X-MBX-USED-WEIGHT-1M': String(s.usage.weight), 'X-MBX-ORDER-COUNT-1M': String(s.usage.orders) };
+}
+
+async function handleFapi(req: Request, env: SimEnv, s: SimState, url: URL): Promise<Response> {
+  const path = url.pathname;
+  const method = req.method;
+  const query = url.search.replace(/^\?/, '');
+  const body = method === 'POST' || method === 'PUT' ? await req.text() : '';
+  const params = new URLSearchParams(query);
+  for (const [k, v] of new URLSearchParams(body)) params.set(k, v);
+
+  const isOrder = path === '/fapi/v1/order' && method === 'POST';
+  const headers = meter(s, weightFor(method, path, params), isOrder);
+  if (s.usage.weight > s.config.weightLimit) {
+    return json({ code: -1003, msg: 'Too many requests; current limit is ' + s.config.weightLimit + ' request weight per 1 MINUTE.' }, 429, { ...headers, 'Retry-After': String(60 - Math.floor((Date.now() % 60000) / 1000)) });
+  }
+
+  try {
+    advance(s);
+    const signed = path.startsWith('/fapi/v2/') || ['/fapi/v1/order', '/fapi/v1/openOrders', '/fapi/v1/userTrades', '/fapi/v1/income', '/fapi/v1/leverage', '/fapi/v1/marginType', '/fapi/v1/leverageBracket', '/fapi/v1/countdownCancelAll'].includes(path);
+    if (signed) await verifySigned(req, env, query, body, params);
+
+    if (path === '/fapi/v1/listenKey') {
+      verifyKeyed(req, env);
+      // POST returns the live key if there is one, as the exchange does
+      if (method === 'POST') return json({ listenKey: (listenKey ||= crypto.randomUUID().replace(/-/g, '')) }, 200, headers);
+      if (!listenKey) throw new SimReject(-1125, 'This listenKey does not exist.');
+      if (method === 'DELETE') {
+        listenKey = null;
+        for (const ws of streams) { try { ws.close(1000, 'listenKey closed'); } catch {} }
+        streams.clear();
+      }
+      return json({}, 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v1/ping') return json({}, 200, headers);
+    if (method === 'GET' && path === '/fapi/v1/time') return json({ serverTime: simNow() }, 200, headers);
+    if (method === 'GET' && path === '/fapi/v1/exchangeInfo') return json(exchangeInfo(s), 200, headers);
+    if (method === 'GET' && path === '/fapi/v1/ticker/price') {
+      const m = market(s, params, false);
+      const row = (x: SimMarket) => ({ symbol: x.spec.symbol, price: fmt(x.price, x.spec.tickSize), time: simNow() });
+      return json(m ? row(m) : Object.values(s.markets).map(row), 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v1/premiumIndex') {
+      const m = market(s, params, false);
+      const now = simNow();
+      const row = (x: SimMarket) => ({
+        symbol: x.spec.symbol, markPrice: fmt(x.price, x.spec.tickSize), indexPrice: fmt(x.price, x.spec.tickSize), estimatedSettlePrice: fmt(x.price, x.spec.tickSize),
+        lastFundingRate: fmt(s.config.fundingRate), interestRate: '0.00010000', nextFundingTime: nextFunding(s, now), time: now
+      });
+      return json(m ? row(m) : Object.values(s.markets).map(row), 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v1/ticker/bookTicker') {
+      // The touch sits off the mid by the market-order slippage, so a limit there rests
+      const m = market(s, params, false);
+      const row = (x: SimMarket) => {
+        const { bids, asks } = bookLevels(s, x, 1);
+        return { symbol: x.spec.symbol, bidPrice: bids[0][0], bidQty: bids[0][1], askPrice: asks[0][0], askQty: asks[0][1], time: simNow() };
+      };
+      return json(m ? row(m) : Object.values(s.markets).map(row), 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v1/depth') {
+      const m = market(s, params)!;
+      const limit = num(params, 'limit') ?? 500;
+      if (![5, 10, 20, 50, 100, 500, 1000].includes(limit)) throw new SimReject(-1130, 'Data sent for parameter \'limit\' is not valid.');
+      return json({ lastUpdateId: Date.now(), E: simNow(), T: simNow(), ...bookLevels(s, m, limit) }, 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v1/ticker/24hr') {
+      const m = market(s, params, false);
+      return json(m ? ticker24h(m) : Object.values(s.markets).map(ticker24h), 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v1/klines') {
+      const m = market(s, params)!;
+      if (need(params, 'interval') !== '1m') throw new SimReject(-1120, 'Invalid interval (the simulator only serves 1m).');
+      const limit = Math.min(1500, num(params, 'limit') ?? 500);
+      const start = num(params, 'startTime');
+      const end = num(params, 'endTime');
+      let rows = m.bars.filter(b => (start === undefined || b.openTime >= start) && (end === undefined || b.openTime <= end));
+      rows = start === undefined ? rows.slice(-limit) : rows.slice(0, limit);
+      return json(rows.map(b => bar(b, m)), 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v2/account') return json(account(s), 200, headers);
+    if (method === 'GET' && path === '/fapi/v2/positionRisk') return json(positionRisk(s, market(s, params, false)), 200, headers);
+    if (path === '/fapi/v1/order') {
+      if (method === 'POST') return json(newOrder(s, params), 200, headers);
+      if (method === 'GET') return json(publicOrder(findOrder(s, params)), 200, headers);
+      if (method === 'DELETE') return json(cancelOrder(s, params), 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v1/openOrders') {
+      const m = market(s, params, false);
+      return json(s.orders.filter(o => (!m || o.symbol === m.spec.symbol) && (o.status === 'NEW' || o.status === 'PARTIALLY_FILLED')).map(publicOrder), 200, headers);
+    }
+    if (method === 'POST' && path === '/fapi/v1/countdownCancelAll') return json(countdownCancelAll(s, params), 200, headers);
+    if (method === 'POST' && path === '/fapi/v1/leverage') return json(changeLeverage(s, params), 200, headers);
+    if (method === 'POST' && path === '/fapi/v1/marginType') return json(changeMarginType(s, params), 200, headers);
+    if (method === 'GET' && path === '/fapi/v1/positionSide/dual') return json({ dualSidePosition: false }, 200, headers);
+    if (method === 'POST' && path === '/fapi/v1/positionSide/dual') return json(changePositionMode(params), 200, headers);
+    if (method === 'GET' && path === '/fapi/v1/leverageBracket') {
+      const m = market(s, params, false);
+      return json(m ? brackets(m) : Object.values(s.markets).map(brackets), 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v1/userTrades') {
+      const m = market(s, params)!;
+      const fromId = num(params, 'fromId');
+      let rows = s.trades.filter(t => t.symbol === m.spec.symbol);
+      if (fromId !== undefined) rows = rows.filter(t => t.id >= fromId).slice(0, Math.min(1000, num(params, 'limit') ?? 500));
+      else rows = timeWindow(rows, params, 500, 1000);
+      return json(rows, 200, headers);
+    }
+    if (method === 'GET' && path === '/fapi/v1/income') {
+      const m = market(s, params, false);
+      const type = params.get('incomeType');
+      const rows = s.income.filter(r => (!m || r.symbol === m.spec.symbol) && (!type || r.incomeType === type));
+      return json(timeWindow(rows, params, 100, 1000), 200, headers);
+    }
+    return json({ code: -1020, msg: 'This operation is not supported.' }, 404, headers);
+  } catch (e: any) {
+    if (e instanceof SimReject) return json({ code: e.code, msg: e.message }, e.status, headers);
+    return json({ code: -1000, msg: String(e?.message || e) }, 500, headers);
+  }
+}
+
+// ---------- Control routes ----------
+// GET  /sim/state                      balances, positions, orders and prices
+// POST /sim/reset   { config?, seed? } fresh account; config merges over the defaults
+// POST /sim/price   { symbol, price }  jump to a price (resting orders match against it)
+// POST /sim/path    { symbol, points: [{ t, price }], after?: 'hold'|'loop'|'walk' }
+// POST /sim/advance { ms }             move the simulated clock forward
+async function handleControl(req: Request, env: SimEnv, s: SimState, url: URL): Promise<Response> {
+  const body: any = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+  if (url.pathname === '/sim/state') {
+    advance(s);
+    const open = s.orders.filter(o => o.status === 'NEW' || o.status === 'PARTIALLY_FILLED');
+    const prices = Object.fromEntries(Object.values(s.markets).map(m => [m.spec.symbol, m.price]));
+    const positions = Object.fromEntries(Object.entries(s.positions).filter(([, p]) => p.amt !== 0));
+    return json({ now: simNow(), clockSkewMs: s.clockSkewMs, account: account(s), positions, openOrders: open, prices, trades: s.trades.length, usage: s.usage });
+  }
+  if (url.pathname === '/sim/reset' && req.method === 'POST') {
+    const cfg: SimConfig = { ...DEFAULT_SIM_CONFIG, ...(body?.config || {}) };
+    if (Array.isArray(body?.config?.symbols)) cfg.symbols = body.config.symbols.map((x: any) => ({ ...spec(x.symbol, x.price, x.tickSize ?? 0.01, x.stepSize ?? 0.001), ...x }));
+    state = createState(cfg, Number(body?.seed ?? env.SIM_SEED ?? 42));
+    return json({ ok: true, now: simNow() });
+  }
+  if (url.pathname === '/sim/price' && req.method === 'POST') {
+    const m = s.markets[String(body?.symbol || '')];
+    const price = Number(body?.price);
+    if (!m || !(price > 0)) return json({ ok: false, error: 'symbol and price required' }, 400);
+    advance(s);
+    const now = simNow();
+    m.price = roundTo(price, m.spec.tickSize);
+    m.path = null;
+    recordTrade(m, now, m.price, m.spec.minNotional / m.price);
+    matchResting(s, m, now);
+    return json({ ok: true, symbol: m.spec.symbol, price: m.price });
+  }
+  if (url.pathname === '/sim/path' && req.method === 'POST') {
+    const m = s.markets[String(body?.symbol || '')];
+    const points = Array.isArray(body?.points) ? body.points.map((p: any) => ({ t: Number(p.t), price: Number(p.price) })) : [];
+    if (!m || !points.length || points.some((p: any) => !(p.t >= 0) || !(p.price > 0))) return json({ ok: false, error: 'symbol and points [{ t, price }] required' }, 400);
+    advance(s);
+    points.sort((a: any, b: any) => a.t - b.t);
+    const after = ['hold', 'loop', 'walk'].includes(body?.after) ? body.after : 'hold';
+    m.path = { startedAt: simNow(), points, after };
+    return json({ ok: true, symbol: m.spec.symbol, points: points.length, after });
+  }
+  if (url.pathname === '/sim/advance' && req.method === 'POST') {
+    const ms = Number(body?.ms);
+    if (!(ms > 0)) return json({ ok: false, error: 'ms required' }, 400);
+    s.clockSkewMs += ms;
+    advance(s);
+    return json({ ok: true, now: simNow() });
+  }
+  return json({ ok: false, error: 'not_found' }, 404);
+}
+
+export default {
+  async fetch(req: Request, env: SimEnv): Promise<Response> {
+    const url = new URL(req.url);
+    const s = getState(env);
+    if (url.pathname.startsWith('/sim/')) return handleControl(req, env, s, url);
+    if (url.pathname.startsWith('/fapi/')) return handleFapi(req, env, s, url);
+    if (url.pathname.startsWith('/ws/')) {
+      if (req.headers.get('Upgrade') !== 'websocket') return json({ ok: false, error: 'websocket upgrade required' }, 426);
+      if (!listenKey || url.pathname !== `/ws/${listenKey}`) return json({ code: -1125, msg: 'This listenKey does not exist.' }, 400);
+      const pair = new WebSocketPair();
+      const server = pair[1];
+      server.accept();
+      streams.add(server);
+      server.addEventListener('close', () => streams.delete(server));
+      return new Response(null, { status: 101, webSocket: pair[0] });
+    }
+    return json({ ok: false, error: 'not_found' }, 404);
+  }
+};
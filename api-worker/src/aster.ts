@@ -0,0 +1,707 @@
+// Typed client for the Aster futures REST API (Binance-style fapi).
+// Every signed and public call goes through here so callers get typed results
+// and a decoded AsterApiError describing why a call failed, instead of null.
+
+export type AsterEnv = {
+  MEAP_KV?: KVNamespace;
+  ASTER_API_BASE?: string;
+  ASTER_API_KEY?: string;
+  ASTER_API_SECRET?: string;
+  ASTER_RECV_WINDOW?: string; // ms, defaults to 5000 (exchange default)
+};
+
+type Params = Record<string, string | number | boolean | undefined | null>;
+
+// ---------- Response types (decimals are returned as strings by the exchange) ----------
+export type AsterAccount = {
+  feeTier: number;
+  canTrade: boolean;
+  totalInitialMargin: string;
+  totalMaintMargin: string;
+  totalWalletBalance: string;
+  totalUnrealizedProfit: string;
+  totalMarginBalance: string;
+  totalCrossWalletBalance: string;
+  availableBalance: string;
+  maxWithdrawAmount: string;
+  updateTime: number;
+  assets: Array<{ asset: string; walletBalance: string; unrealizedProfit: string; marginBalance: string; availableBalance: string }>;
+  positions: Array<{ symbol: string; leverage: string; isolated: boolean; entryPrice: string; positionSide: 'BOTH' | 'LONG' | 'SHORT'; positionAmt: string; unrealizedProfit: string }>;
+};
+
+export type AsterPositionRisk = {
+  symbol: string;
+  positionAmt: string;
+  entryPrice: string;
+  markPrice: string;
+  unRealizedProfit: string;
+  liquidationPrice: string;
+  leverage: string;
+  maxNotionalValue: string;
+  marginType: 'isolated' | 'cross';
+  isolatedMargin: string;
+  isAutoAddMargin: string;
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  updateTime: number;
+};
+
+export type AsterOrderSide = 'BUY' | 'SELL';
+export type AsterOrderType = 'LIMIT' | 'MARKET' | 'STOP' | 'STOP_MARKET' | 'TAKE_PROFIT' | 'TAKE_PROFIT_MARKET' | 'TRAILING_STOP_MARKET';
+export type AsterOrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'REJECTED' | 'EXPIRED';
+
+export type AsterOrderParams = {
+  symbol: string;
+  side: AsterOrderSide;
+  type: AsterOrderType;
+  quantity?: number | string;
+  price?: number | string;
+  stopPrice?: number | string;
+  positionSide?: 'BOTH' | 'LONG' | 'SHORT';
+  timeInForce?: 'GTC' | 'IOC' | 'FOK' | 'GTX';
+  reduceOnly?: 'true' | 'false';
+  closePosition?: 'true' | 'false';
+  workingType?: 'MARK_PRICE' | 'CONTRACT_PRICE';
+  newClientOrderId?: string;
+  newOrderRespType?: 'ACK' | 'RESULT';
+};
+
+export type AsterOrder = {
+  orderId: number;
+  clientOrderId: string;
+  symbol: string;
+  status: AsterOrderStatus;
+  side: AsterOrderSide;
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  type: AsterOrderType;
+  origType: AsterOrderType;
+  price: string;
+  avgPrice: string;
+  stopPrice: string;
+  origQty: string;
+  executedQty: string;
+  cumQuote: string;
+  reduceOnly: boolean;
+  closePosition: boolean;
+  timeInForce: string;
+  time?: number;
+  updateTime: number;
+};
+
+export type AsterUserTrade = {
+  id: number;
+  orderId: number;
+  symbol: string;
+  side: AsterOrderSide;
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  buyer: boolean;
+  maker: boolean;
+  price: string;
+  qty: string;
+  quoteQty: string;
+  realizedPnl: string;
+  commission: string;
+  commissionAsset: string;
+  time: number;
+};
+
+export type AsterIncomeType = 'TRANSFER' | 'WELCOME_BONUS' | 'REALIZED_PNL' | 'FUNDING_FEE' | 'COMMISSION' | 'INSURANCE_CLEAR' | 'MARKET_MERCHANT_RETURN_REWARD';
+
+export type AsterIncome = {
+  symbol: string;
+  incomeType: AsterIncomeType;
+  income: string;
+  asset: string;
+  info: string;
+  time: number;
+  tranId: string;
+  tradeId: string;
+};
+
+export type AsterSymbolFilter = { filterType: string; [key: string]: any };
+
+export type AsterExchangeInfo = {
+  timezone: string;
+  serverTime: number;
+  rateLimits: Array<{ rateLimitType: 'REQUEST_WEIGHT' | 'ORDERS'; interval: string; intervalNum: number; limit: number }>;
+  symbols: Array<{
+    symbol: string;
+    status: string;
+    baseAsset: string;
+    quoteAsset: string;
+    pricePrecision: number;
+    quantityPrecision: number;
+    filters: AsterSymbolFilter[];
+    OrderType?: AsterOrderType[];
+    timeInForce?: string[];
+  }>;
+};
+
+export type AsterLeverageBracket = {
+  symbol: string;
+  brackets: Array<{ bracket: number; initialLeverage: number; notionalCap: number; notionalFloor: number; maintMarginRatio: number; cum: number }>;
+};
+
+export type AsterTickerPrice = { symbol: string; price: string; time?: number };
+export type AsterBookTicker = { symbol: string; bidPrice: string; bidQty: string; askPrice: string; askQty: string; time?: number };
+// Price levels as [price, qty], best first
+export type AsterDepth = { lastUpdateId: number; E?: number; T?: number; bids: Array<[string, string]>; asks: Array<[string, string]> };
+// Mark price and funding per symbol; lastFundingRate is the rate charged at nextFundingTime
+export type AsterPremiumIndex = { symbol: string; markPrice: string; indexPrice: string; lastFundingRate: string; interestRate: string; nextFundingTime: number; time: number };
+export type AsterTicker24h = { symbol: string; priceChangePercent: string; lastPrice: string; volume: string; quoteVolume: string };
+export type AsterKline = [number, string, string, string, string, string, number, string, number, string, string, string];
+
+// ---------- User data stream events (wss /ws/<listenKey>) ----------
+export type AsterOrderTradeUpdate = {
+  e: 'ORDER_TRADE_UPDATE';
+  E: number; // event time
+  T: number; // transaction time
+  o: {
+    s: string;             // symbol
+    c: string;             // client order id
+    S: AsterOrderSide;
+    o: AsterOrderType;
+    q: string;             // original quantity
+    p: string;             // original price
+    ap: string;            // average price
+    sp: string;            // stop price
+    x: 'NEW' | 'CANCELED' | 'CALCULATED' | 'EXPIRED' | 'TRADE'; // execution type
+    X: AsterOrderStatus;
+    i: number;             // order id
+    l: string;             // last filled quantity
+    z: string;             // cumulative filled quantity
+    L: string;             // last filled price
+    N?: string;            // commission asset
+    n?: string;            // commission
+    T: number;             // trade time
+    t: number;             // trade id
+    m: boolean;            // maker side
+    R: boolean;            // reduce only
+    ps: 'BOTH' | 'LONG' | 'SHORT';
+    cp?: boolean;          // close-all conditional order
+    rp: string;            // realized profit of this trade
+  };
+};
+
+export type AsterAccountUpdate = {
+  e: 'ACCOUNT_UPDATE';
+  E: number;
+  T: number;
+  a: {
+    m: string; // reason, e.g. ORDER, FUNDING_FEE, MARGIN_TRANSFER
+    B: Array<{ a: string; wb: string; cw: string; bc?: string }>;
+    P: Array<{ s: string; pa: string; ep: string; cr: string; up: string; mt: 'isolated' | 'cross'; iw: string; ps: 'BOTH' | 'LONG' | 'SHORT' }>;
+  };
+};
+
+export type AsterMarginCall = {
+  e: 'MARGIN_CALL';
+  E: number;
+  cw?: string;
+  p: Array<{ s: string; ps: string; pa: string; mt: string; iw: string; mp: string; up: string; mm: string }>;
+};
+
+export type AsterUserStreamEvent =
+  | AsterOrderTradeUpdate
+  | AsterAccountUpdate
+  | AsterMarginCall
+  | { e: 'listenKeyExpired'; E: number };
+
+// ---------- Market streams (wss /stream?streams=<symbol>@kline_1m/...) ----------
+export type AsterKlineEvent = {
+  e: 'kline';
+  E: number;
+  s: string;
+  k: { t: number; T: number; s: string; i: string; o: string; c: string; h: string; l: string; v: string; n: number; x: boolean; q: string; V: string; Q: string };
+};
+
+export type AsterMarkPriceEvent = {
+  e: 'markPriceUpdate';
+  E: number;
+  s: string;
+  p: string; // mark price
+  i?: string; // index price
+  r: string; // funding rate
+  T: number; // next funding time
+};
+
+export type AsterBookTickerEvent = {
+  e: 'bookTicker';
+  E: number;
+  T?: number;
+  s: string;
+  b: string; // best bid
+  B: string;
+  a: string; // best ask
+  A: string;
+};
+
+export type AsterMarketStreamEvent = AsterKlineEvent | AsterMarkPriceEvent | AsterBookTickerEvent;
+
+// ---------- Errors ----------
+export type AsterErrorKind =
+  | 'config'          // base url or credentials missing
+  | 'network'         // fetch threw or timed out before a response
+  | 'server'          // 5xx or -1000/-1001 style internal errors
+  | 'unknown_status'  // execution status unknown (503, -1006, -1007)
+  | 'waf'             // 403 from the web application firewall
+  | 'rate_limit'      // 429, -1003, -1015
+  | 'ip_banned'       // 418
+  | 'auth'            // key, signature or permission problems
+  | 'timestamp'       // -1021 outside recvWindow
+  | 'request'         // 11xx malformed request
+  | 'order_rejected'  // 20xx processing rejections
+  | 'no_such_order'   // -2013
+  | 'insufficient'    // balance or margin not sufficient
+  | 'filter'          // 40xx filter and parameter rejections
+  | 'no_change'       // requested setting already in place (-4046, -4059)
+  | 'deferred'        // held back locally by the weight budget or a rate-limit pause
+  | 'http';           // any other non-2xx without a decodable code
+
+// Documented error codes from aster-finance-futures-api.md (Error Codes section).
+const ASTER_ERROR_NAMES: Record<number, string> = {
+  [-1000]: 'UNKNOWN', [-1001]: 'DISCONNECTED', [-1002]: 'UNAUTHORIZED', [-1003]: 'TOO_MANY_REQUESTS',
+  [-1004]: 'DUPLICATE_IP', [-1005]: 'NO_SUCH_IP', [-1006]: 'UNEXPECTED_RESP', [-1007]: 'TIMEOUT',
+  [-1010]: 'ERROR_MSG_RECEIVED', [-1011]: 'NON_WHITE_LIST', [-1013]: 'INVALID_MESSAGE', [-1014]: 'UNKNOWN_ORDER_COMPOSITION',
+  [-1015]: 'TOO_MANY_ORDERS', [-1016]: 'SERVICE_SHUTTING_DOWN', [-1020]: 'UNSUPPORTED_OPERATION', [-1021]: 'INVALID_TIMESTAMP',
+  [-1022]: 'INVALID_SIGNATURE', [-1023]: 'START_TIME_GREATER_THAN_END_TIME',
+  [-1100]: 'ILLEGAL_CHARS', [-1101]: 'TOO_MANY_PARAMETERS', [-1102]: 'MANDATORY_PARAM_EMPTY_OR_MALFORMED', [-1103]: 'UNKNOWN_PARAM',
+  [-1104]: 'UNREAD_PARAMETERS', [-1105]: 'PARAM_EMPTY', [-1106]: 'PARAM_NOT_REQUIRED', [-1108]: 'BAD_ASSET',
+  [-1109]: 'BAD_ACCOUNT', [-1110]: 'BAD_INSTRUMENT_TYPE', [-1111]: 'BAD_PRECISION', [-1112]: 'NO_DEPTH',
+  [-1113]: 'WITHDRAW_NOT_NEGATIVE', [-1114]: 'TIF_NOT_REQUIRED', [-1115]: 'INVALID_TIF', [-1116]: 'INVALID_ORDER_TYPE',
+  [-1117]: 'INVALID_SIDE', [-1118]: 'EMPTY_NEW_CL_ORD_ID', [-1119]: 'EMPTY_ORG_CL_ORD_ID', [-1120]: 'BAD_INTERVAL',
+  [-1121]: 'BAD_SYMBOL', [-1125]: 'INVALID_LISTEN_KEY', [-1127]: 'MORE_THAN_XX_HOURS', [-1128]: 'OPTIONAL_PARAMS_BAD_COMBO',
+  [-1130]: 'INVALID_PARAMETER', [-1136]: 'INVALID_NEW_ORDER_RESP_TYPE',
+  [-2010]: 'NEW_ORDER_REJECTED', [-2011]: 'CANCEL_REJECTED', [-2013]: 'NO_SUCH_ORDER', [-2014]: 'BAD_API_KEY_FMT',
+  [-2015]: 'REJECTED_MBX_KEY', [-2016]: 'NO_TRADING_WINDOW', [-2018]: 'BALANCE_NOT_SUFFICIENT', [-2019]: 'MARGIN_NOT_SUFFICIEN',
+  [-2020]: 'UNABLE_TO_FILL', [-2021]: 'ORDER_WOULD_IMMEDIATELY_TRIGGER', [-2022]: 'REDUCE_ONLY_REJECT', [-2023]: 'USER_IN_LIQUIDATION',
+  [-2024]: 'POSITION_NOT_SUFFICIENT', [-2025]: 'MAX_OPEN_ORDER_EXCEEDED', [-2026]: 'REDUCE_ONLY_ORDER_TYPE_NOT_SUPPORTED',
+  [-2027]: 'MAX_LEVERAGE_RATIO', [-2028]: 'MIN_LEVERAGE_RATIO',
+  [-4000]: 'INVALID_ORDER_STATUS', [-4001]: 'PRICE_LESS_THAN_ZERO', [-4002]: 'PRICE_GREATER_THAN_MAX_PRICE', [-4003]: 'QTY_LESS_THAN_ZERO',
+  [-4004]: 'QTY_LESS_THAN_MIN_QTY', [-4005]: 'QTY_GREATER_THAN_MAX_QTY', [-4006]: 'STOP_PRICE_LESS_THAN_ZERO', [-4007]: 'STOP_PRICE_GREATER_THAN_MAX_PRICE',
+  [-4008]: 'TICK_SIZE_LESS_THAN_ZERO', [-4009]: 'MAX_PRICE_LESS_THAN_MIN_PRICE', [-4010]: 'MAX_QTY_LESS_THAN_MIN_QTY', [-4011]: 'STEP_SIZE_LESS_THAN_ZERO',
+  [-4012]: 'MAX_NUM_ORDERS_LESS_THAN_ZERO', [-4013]: 'PRICE_LESS_THAN_MIN_PRICE', [-4014]: 'PRICE_NOT_INCREASED_BY_TICK_SIZE', [-4015]: 'INVALID_CL_ORD_ID_LEN',
+  [-4016]: 'PRICE_HIGHTER_THAN_MULTIPLIER_UP', [-4017]: 'MULTIPLIER_UP_LESS_THAN_ZERO', [-4018]: 'MULTIPLIER_DOWN_LESS_THAN_ZERO', [-4019]: 'COMPOSITE_SCALE_OVERFLOW',
+  [-4020]: 'TARGET_STRATEGY_INVALID', [-4021]: 'INVALID_DEPTH_LIMIT', [-4022]: 'WRONG_MARKET_STATUS', [-4023]: 'QTY_NOT_INCREASED_BY_STEP_SIZE',
+  [-4024]: 'PRICE_LOWER_THAN_MULTIPLIER_DOWN', [-4025]: 'MULTIPLIER_DECIMAL_LESS_THAN_ZERO', [-4026]: 'COMMISSION_INVALID', [-4027]: 'INVALID_ACCOUNT_TYPE',
+  [-4028]: 'INVALID_LEVERAGE', [-4029]: 'INVALID_TICK_SIZE_PRECISION', [-4030]: 'INVALID_STEP_SIZE_PRECISION', [-4031]: 'INVALID_WORKING_TYPE',
+  [-4032]: 'EXCEED_MAX_CANCEL_ORDER_SIZE', [-4033]: 'INSURANCE_ACCOUNT_NOT_FOUND', [-4044]: 'INVALID_BALANCE_TYPE', [-4045]: 'MAX_STOP_ORDER_EXCEEDED',
+  [-4046]: 'NO_NEED_TO_CHANGE_MARGIN_TYPE', [-4047]: 'THERE_EXISTS_OPEN_ORDERS', [-4048]: 'THERE_EXISTS_QUANTITY', [-4049]: 'ADD_ISOLATED_MARGIN_REJECT',
+  [-4050]: 'CROSS_BALANCE_INSUFFICIENT', [-4051]: 'ISOLATED_BALANCE_INSUFFICIENT', [-4052]: 'NO_NEED_TO_CHANGE_AUTO_ADD_MARGIN', [-4053]: 'AUTO_ADD_CROSSED_MARGIN_REJECT',
+  [-4054]: 'ADD_ISOLATED_MARGIN_NO_POSITION_REJECT', [-4055]: 'AMOUNT_MUST_BE_POSITIVE', [-4056]: 'INVALID_API_KEY_TYPE', [-4057]: 'INVALID_RSA_PUBLIC_KEY',
+  [-4058]: 'MAX_PRICE_TOO_LARGE', [-4059]: 'NO_NEED_TO_CHANGE_POSITION_SIDE', [-4060]: 'INVALID_POSITION_SIDE', [-4061]: 'POSITION_SIDE_NOT_MATCH',
+  [-4062]: 'REDUCE_ONLY_CONFLICT', [-4067]: 'POSITION_SIDE_CHANGE_EXISTS_OPEN_ORDERS', [-4068]: 'POSITION_SIDE_CHANGE_EXISTS_QUANTITY',
+  [-4082]: 'INVALID_BATCH_PLACE_ORDER_SIZE', [-4083]: 'PLACE_BATCH_ORDERS_FAIL', [-4084]: 'UPCOMING_METHOD', [-4085]: 'INVALID_NOTIONAL_LIMIT_COEF',
+  [-4086]: 'INVALID_PRICE_SPREAD_THRESHOLD', [-4087]: 'REDUCE_ONLY_ORDER_PERMISSION', [-4088]: 'NO_PLACE_ORDER_PERMISSION', [-4104]: 'INVALID_CONTRACT_TYPE',
+  [-4114]: 'INVALID_CLIENT_TRAN_ID_LEN', [-4115]: 'DUPLICATED_CLIENT_TRAN_ID', [-4118]: 'REDUCE_ONLY_MARGIN_CHECK_FAILED', [-4131]: 'MARKET_ORDER_REJECT',
+  [-4135]: 'INVALID_ACTIVATION_PRICE', [-4137]: 'QUANTITY_EXISTS_WITH_CLOSE_POSITION', [-4138]: 'REDUCE_ONLY_MUST_BE_TRUE', [-4139]: 'ORDER_TYPE_CANNOT_BE_MKT',
+  [-4140]: 'INVALID_OPENING_POSITION_STATUS', [-4141]: 'SYMBOL_ALREADY_CLOSED', [-4142]: 'STRATEGY_INVALID_TRIGGER_PRICE', [-4144]: 'INVALID_PAIR',
+  [-4161]: 'ISOLATED_LEVERAGE_REJECT_WITH_POSITION', [-4164]: 'MIN_NOTIONAL', [-4165]: 'INVALID_TIME_INTERVAL',
+  [-4183]: 'PRICE_HIGHTER_THAN_STOP_MULTIPLIER_UP', [-4184]: 'PRICE_LOWER_THAN_STOP_MULTIPLIER_DOWN'
+};
+
+function kindForCode(code: number): AsterErrorKind {
+  switch (code) {
+    case -1000: case -1001: case -1016: return 'server';
+    case -1006: case -1007: return 'unknown_status';
+    case -1003: case -1015: return 'rate_limit';
+    case -1002: case -1011: case -1022: case -2014: case -2015: return 'auth';
+    case -1021: return 'timestamp';
+    case -2013: return 'no_such_order';
+    case -2018: case -2019: case -2027: case -2028: case -4050: case -4051: return 'insufficient';
+    case -4046: case -4052: case -4059: return 'no_change';
+  }
+  if (code <= -1000 && code > -2000) return 'request';
+  if (code <= -2000 && code > -3000) return 'order_rejected';
+  if (code <= -4000 && code > -5000) return 'filter';
+  return 'http';
+}
+
+function kindForStatus(status: number): AsterErrorKind {
+  if (status === 429) return 'rate_limit';
+  if (status === 418) return 'ip_banned';
+  if (status === 403) return 'waf';
+  if (status === 503) return 'unknown_status';
+  if (status >= 500) return 'server';
+  if (status === 401) return 'auth';
+  return 'http';
+}
+
+export class AsterApiError extends Error {
+  readonly status: number;
+  readonly code: number | null;
+  readonly codeName: string | null;
+  readonly kind: AsterErrorKind;
+  readonly path: string;
+  readonly retryAfterMs: number | null;
+
+  constructor(opts: { status: number; code?: number | null; msg?: string; kind?: AsterErrorKind; path: string; retryAfterMs?: number | null }) {
+    const code = typeof opts.code === 'number' ? opts.code : null;
+    const codeName = code !== null ? (ASTER_ERROR_NAMES[code] || null) : null;
+    const kind = opts.kind || (code !== null ? kindForCode(code) : kindForStatus(opts.status));
+    const label = codeName ? `${code} ${codeName}` : code !== null ? String(code) : `http_${opts.status}`;
+    super(`aster ${opts.path}: ${label}${opts.msg ? ` ${opts.msg}` : ''}`);
+    this.name = 'AsterApiError';
+    this.status = opts.status;
+    this.code = code;
+    this.codeName = codeName;
+    this.kind = kind;
+    this.path = opts.path;
+    this.retryAfterMs = opts.retryAfterMs ?? null;
+  }
+
+  // Transient failures that are safe to repeat for idempotent requests
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'server' || this.kind === 'unknown_status';
+  }
+
+  toJSON() {
+    return { status: this.status, code: this.code, codeName: this.codeName, kind: this.kind, path: this.path, msg: this.message };
+  }
+}
+
+// Compact error shape for vibe logs
+export function asterErrorInfo(e: any): { error: string; code?: number | null; kind?: AsterErrorKind; status?: number } {
+  if (e instanceof AsterApiError) return { error: e.message, code: e.code, kind: e.kind, status: e.status };
+  return { error: String(e?.message || e) };
+}
+
+// ---------- Transport ----------
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(sig)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function encodeParams(params: Params | undefined): URLSearchParams {
+  const qp = new URLSearchParams();
+  for (const [k, v] of Object.entries(params || {})) {
+    if (v === undefined || v === null) continue;
+    qp.append(k, String(v));
+  }
+  return qp;
+}
+
+function sleep(ms: number) {
+  return new Promise(r => setTimeout(r, ms));
+}
+
+// Full jitter: uniform in [0, base * 2^attempt], capped
+function backoffMs(attempt: number, baseMs = 250, capMs = 4000): number {
+  return Math.floor(Math.random() * Math.min(capMs, baseMs * Math.pow(2, attempt)));
+}
+
+function retryAfterFrom(r: Response): number | null {
+  const h = r.headers.get('retry-after');
+  if (!h) return null;
+  const s = Number(h);
+  return Number.isFinite(s) && s >= 0 ? s * 1000 : null;
+}
+
+// Server clock offset, shared across invocations through KV
+export type AsterClockState = { offsetMs: number; rttMs: number; syncedAt: number };
+const CLOCK_KEY = '/aster_clock.json';
+const CLOCK_TTL_MS = 10 * 60 * 1000; // re-sync every 10 minutes
+
+function recvWindowFrom(env: AsterEnv): number {
+  const v = Number(env.ASTER_RECV_WINDOW || 5000);
+  return Number.isFinite(v) ? Math.max(1000, Math.min(60_000, Math.floor(v))) : 5000;
+}
+
+// Weight budget from X-MBX-USED-WEIGHT-* / X-MBX-ORDER-COUNT-* headers (see LIMITS in the API doc).
+// Readings are per IP / account and reset every minute; the state is shared through KV so a
+// 429/418 pause set by one invocation holds back the next cron tick too.
+export type AsterPriority = 'critical' | 'normal' | 'low';
+export type AsterRateState = {
+  usedWeight: number;   // last X-MBX-USED-WEIGHT-1M reading
+  orderCount: number;   // last X-MBX-ORDER-COUNT-1M reading
+  observedAt: number;
+  weightLimit: number;  // REQUEST_WEIGHT per minute
+  orderLimit: number;   // ORDERS per minute
+  pausedUntil: number;  // set from Retry-After on 429/418
+  pauseStatus?: number;
+  bannedUntil?: number; // set from Retry-After on 418; holds back critical calls too
+};
+export type AsterRateLimitEvent = { status: number; path: string; retryAfterMs: number; pausedUntil: number; code: number | null };
+const RATE_KEY = '/aster_rate.json';
+const LOW_BUDGET = 0.8;     // low priority calls stop at 80% of the weight limit
+const NORMAL_BUDGET = 0.95; // normal calls stop at 95%; critical calls ignore the budget and wait out only a 418 ban
+
+function headerCount(r: Response, prefix: string): number | null {
+  let best: number | null = null;
+  r.headers.forEach((v, k) => {
+    const key = k.toLowerCase();
+    if (!key.startsWith(prefix)) return;
+    // Prefer the one-minute window; fall back to the largest reading
+    const n = Number(v);
+    if (!Number.isFinite(n)) return;
+    if (key.endsWith('-1m')) best = n;
+    else if (best === null) best = n;
+  });
+  return best;
+}
+
+type SendOpts = {
+  signed: boolean;
+  priority?: AsterPriority;
+  keyed?: boolean;      // API key header without signature (USER_STREAM)
+  idempotent: boolean;  // safe to retry on transient failures
+  timeoutMs?: number;
+  maxAttempts?: number;
+};
+
+export type AsterClient = ReturnType<typeof createAsterClient>;
+
+export function createAsterClient(env: AsterEnv, url: URL, hooks: { onRateLimit?: (e: AsterRateLimitEvent) => Promise<void> } = {}) {
+  const base = (env.ASTER_API_BASE || '').trim().replace(/\/+$/, '');
+  const apiKey = env.ASTER_API_KEY || '';
+  const apiSecret = env.ASTER_API_SECRET || '';
+  const recvWindow = recvWindowFrom(env);
+  const clockKey = new URL(CLOCK_KEY, url).toString();
+  const rateKey = new URL(RATE_KEY, url).toString();
+  let clock: AsterClockState | null = null;
+  let clockLoaded = false;
+  let rate: AsterRateState = { usedWeight: 0, orderCount: 0, observedAt: 0, weightLimit: 2400, orderLimit: 1200, pausedUntil: 0 };
+  let rateLoaded = false;
+
+  async function loadRate(): Promise<AsterRateState> {
+    if (!rateLoaded) {
+      rateLoaded = true;
+      try {
+        const saved = (await env.MEAP_KV?.get(rateKey, { type: 'json' })) as AsterRateState | null;
+        if (saved) rate = { ...rate, ...saved };
+      } catch {}
+    }
+    return rate;
+  }
+
+  async function persistRate() {
+    try { await env.MEAP_KV?.put(rateKey, JSON.stringify(rate)); } catch {}
+  }
+
+  // Readings from an earlier minute no longer count against the budget
+  function currentWeight(now = Date.now()): number {
+    return Math.floor(rate.observedAt / 60000) === Math.floor(now / 60000) ? rate.usedWeight : 0;
+  }
+
+  function currentOrders(now = Date.now()): number {
+    return Math.floor(rate.observedAt / 60000) === Math.floor(now / 60000) ? rate.orderCount : 0;
+  }
+
+  // Why a call at this priority would be held back, or null if it may go out
+  async function deferReason(priority: AsterPriority, isOrder: boolean): Promise<string | null> {
+    await loadRate();
+    const now = Date.now();
+    // Every request during an IP ban extends it, so not even critical calls go out
+    if ((rate.bannedUntil || 0) > now) return `IP banned until ${new Date(rate.bannedUntil!).toISOString()} after HTTP 418`;
+    if (priority === 'critical') return null;
+    if (rate.pausedUntil > now) return `paused until ${new Date(rate.pausedUntil).toISOString()} after HTTP ${rate.pauseStatus || 429}`;
+    const share = priority === 'low' ? LOW_BUDGET : NORMAL_BUDGET;
+    const used = currentWeight(now);
+    if (used >= rate.weightLimit * share) return `weight ${used}/${rate.weightLimit}`;
+    if (isOrder && currentOrders(now) >= rate.orderLimit * NORMAL_BUDGET) return `orders ${currentOrders(now)}/${rate.orderLimit}`;
+    return null;
+  }
+
+  async function observe(r: Response, path: string, code: number | null) {
+    const w = headerCount(r, 'x-mbx-used-weight-');
+    const o = headerCount(r, 'x-mbx-order-count-');
+    if (w !== null || o !== null) {
+      await loadRate();
+      const now = Date.now();
+      if (w !== null) rate.usedWeight = w;
+      else if (Math.floor(rate.observedAt / 60000) !== Math.floor(now / 60000)) rate.usedWeight = 0;
+      if (o !== null) rate.orderCount = o;
+      rate.observedAt = now;
+    }
+    if (r.status === 429 || r.status === 418) {
+      await loadRate();
+      // No Retry-After: wait out the minute window on 429, the minimum ban on 418
+      const retryAfterMs = retryAfterFrom(r) ?? (r.status === 418 ? 2 * 60_000 : 60_000);
+      rate.pausedUntil = Math.max(rate.pausedUntil, Date.now() + retryAfterMs);
+      rate.pauseStatus = r.status;
+      if (r.status === 418) rate.bannedUntil = Math.max(rate.bannedUntil || 0, Date.now() + retryAfterMs);
+      await persistRate();
+      if (hooks.onRateLimit) {
+        try { await hooks.onRateLimit({ status: r.status, path, retryAfterMs, pausedUntil: rate.pausedUntil, code }); } catch {}
+      }
+    }
+  }
+
+  async function sendOnce<T>(method: string, path: string, params: Params | undefined, opts: SendOpts): Promise<T> {
+    const qp = encodeParams(params);
+    const headers: Record<string, string> = {};
+    if (opts.signed || opts.keyed) headers['X-MBX-APIKEY'] = apiKey;
+    if (opts.signed) {
+      qp.append('timestamp', String(await serverNow()));
+      qp.append('recvWindow', String(recvWindow));
+      qp.append('signature', await hmacHex(apiSecret, qp.toString()));
+    }
+    const qs = qp.toString();
+    // POST bodies are form-encoded; everything else goes in the query string
+    const inBody = method === 'POST' && qs.length > 0;
+    if (inBody) headers['content-type'] = 'application/x-www-form-urlencoded';
+    const target = `${base}${path}${!inBody && qs ? `?${qs}` : ''}`;
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), opts.timeoutMs ?? 10_000);
+    let r: Response;
+    try {
+      r = await fetch(target, { method, headers, body: inBody ? qs : undefined, signal: ctrl.signal });
+    } catch (e: any) {
+      throw new AsterApiError({ status: 0, kind: 'network', path, msg: String(e?.message || e) });
+    } finally {
+      clearTimeout(timer);
+    }
+    const txt = await r.text();
+    const body = (() => { try { return txt ? JSON.parse(txt) : null; } catch { return null; } })();
+    // Error payloads may arrive with 200 on some routes, so check the code too
+    const code = body && typeof body === 'object' && !Array.isArray(body) && typeof body.code === 'number' && body.code < 0 ? body.code : null;
+    await observe(r, path, code);
+    if (!r.ok || code !== null) {
+      throw new AsterApiError({ status: r.status, code, msg: body?.msg || (body ? undefined : txt.slice(0, 200)), path, retryAfterMs: retryAfterFrom(r) });
+    }
+    return body as T;
+  }
+
+  // Estimate offset as serverTime minus the midpoint of the round trip
+  async function syncClock(): Promise<AsterClockState> {
+    const t0 = Date.now();
+    const res = await sendOnce<{ serverTime: number }>('GET', '/fapi/v1/time', undefined, { signed: false, idempotent: true });
+    const t1 = Date.now();
+    const serverTime = Number(res?.serverTime);
+    if (!Number.isFinite(serverTime) || serverTime <= 0) throw new AsterApiError({ status: 200, kind: 'http', path: '/fapi/v1/time', msg: 'bad serverTime' });
+    clock = { offsetMs: Math.round(serverTime - (t0 + t1) / 2), rttMs: t1 - t0, syncedAt: t1 };
+    clockLoaded = true;
+    try { await env.MEAP_KV?.put(clockKey, JSON.stringify(clock)); } catch {}
+    return clock;
+  }
+
+  async function serverNow(): Promise<number> {
+    if (!clockLoaded) {
+      clockLoaded = true;
+      try { clock = ((await env.MEAP_KV?.get(clockKey, { type: 'json' })) as AsterClockState | null) || null; } catch {}
+    }
+    if (!clock || Date.now() - clock.syncedAt > CLOCK_TTL_MS) {
+      // Fall back to the stale (or zero) offset if the time endpoint is unreachable
+      try { await syncClock(); } catch {}
+    }
+    return Date.now() + (clock?.offsetMs || 0);
+  }
+
+  async function send<T>(method: string, path: string, params: Params | undefined, opts: SendOpts): Promise<T> {
+    if (!base) throw new AsterApiError({ status: 0, kind: 'config', path, msg: 'ASTER_API_BASE missing' });
+    if ((opts.signed || opts.keyed) && (!apiKey || !apiSecret)) {
+      throw new AsterApiError({ status: 0, kind: 'config', path, msg: 'ASTER_API_KEY/ASTER_API_SECRET missing' });
+    }
+    const maxAttempts = opts.idempotent ? (opts.maxAttempts ?? 3) : 1;
+    let resynced = false;
+    for (let attempt = 0; ; attempt++) {
+      const held = await deferReason(opts.priority || 'normal', method === 'POST' && path.endsWith('/order'));
+      if (held) throw new AsterApiError({ status: 0, kind: 'deferred', path, msg: held });
+      try {
+        return await sendOnce<T>(method, path, params, opts);
+      } catch (e: any) {
+        const err = e instanceof AsterApiError ? e : new AsterApiError({ status: 0, kind: 'network', path, msg: String(e?.message || e) });
+        // -1021 means the exchange rejected the request before processing it,
+        // so re-sync and resend once even for non-idempotent orders
+        if (err.kind === 'timestamp' && opts.signed && !resynced) {
+          resynced = true;
+          try { await syncClock(); } catch { throw err; }
+          attempt--;
+          continue;
+        }
+        if (!err.retryable || attempt + 1 >= maxAttempts) throw err;
+        await sleep(backoffMs(attempt));
+      }
+    }
+  }
+
+  // Endpoint helpers bound to a priority: critical for protective closes,
+  // low for narration and price polling that can be skipped near the limit
+  function api(priority: AsterPriority) {
+    const publicGet = <T>(path: string, params?: Params) => send<T>('GET', path, params, { signed: false, idempotent: true, priority });
+    const signedGet = <T>(path: string, params?: Params) => send<T>('GET', path, params, { signed: true, idempotent: true, priority });
+    const signedPost = <T>(path: string, params?: Params) => send<T>('POST', path, params, { signed: true, idempotent: false, priority });
+    const signedDelete = <T>(path: string, params?: Params) => send<T>('DELETE', path, params, { signed: true, idempotent: false, priority });
+    // USER_STREAM endpoints take the API key header but no signature
+    const keyed = <T>(method: string, path: string) => send<T>(method, path, undefined, { signed: false, keyed: true, idempotent: method !== 'POST', priority });
+    return {
+      publicGet,
+      signedGet,
+      signedPost,
+      signedDelete,
+
+      // Market data
+      serverTime: () => publicGet<{ serverTime: number }>('/fapi/v1/time'),
+      exchangeInfo: async () => {
+        const info = await publicGet<AsterExchangeInfo>('/fapi/v1/exchangeInfo');
+        // Keep the budget in line with the limits the exchange advertises
+        for (const l of info?.rateLimits || []) {
+          if (l.interval !== 'MINUTE' || l.intervalNum !== 1 || !(l.limit > 0)) continue;
+          if (l.rateLimitType === 'REQUEST_WEIGHT') rate.weightLimit = l.limit;
+          if (l.rateLimitType === 'ORDERS') rate.orderLimit = l.limit;
+        }
+        return info;
+      },
+      tickerPrice: (symbol: string) => publicGet<AsterTickerPrice>('/fapi/v1/ticker/price', { symbol }),
+      tickerPrices: () => publicGet<AsterTickerPrice[]>('/fapi/v1/ticker/price'),
+      bookTicker: (symbol: string) => publicGet<AsterBookTicker>('/fapi/v1/ticker/bookTicker', { symbol }),
+      depth: (symbol: string, limit: 5 | 10 | 20 | 50 | 100 | 500 | 1000 = 100) => publicGet<AsterDepth>('/fapi/v1/depth', { symbol, limit }),
+      ticker24h: () => publicGet<AsterTicker24h[]>('/fapi/v1/ticker/24hr'),
+      premiumIndex: () => publicGet<AsterPremiumIndex[]>('/fapi/v1/premiumIndex'),
+      klines: (symbol: string, interval: string, limit: number) => publicGet<AsterKline[]>('/fapi/v1/klines', { symbol, interval, limit }),
+
+      // Account
+      account: () => signedGet<AsterAccount>('/fapi/v2/account'),
+      positionRisk: (symbol?: string) => signedGet<AsterPositionRisk[]>('/fapi/v2/positionRisk', { symbol }),
+      userTrades: (p: { symbol: string; startTime?: number; endTime?: number; fromId?: number; limit?: number }) =>
+        signedGet<AsterUserTrade[]>('/fapi/v1/userTrades', p),
+      income: (p: { symbol?: string; incomeType?: AsterIncomeType; startTime?: number; endTime?: number; limit?: number }) =>
+        signedGet<AsterIncome[]>('/fapi/v1/income', p),
+      // The endpoint returns a single object when a symbol is sent
+      leverageBracket: async (symbol: string) => {
+        const r = await signedGet<AsterLeverageBracket | AsterLeverageBracket[]>('/fapi/v1/leverageBracket', { symbol });
+        return (Array.isArray(r) ? r.find(b => b.symbol === symbol) : r) || null;
+      },
+      changeLeverage: (symbol: string, leverage: number) =>
+        signedPost<{ symbol: string; leverage: number; maxNotionalValue: string }>('/fapi/v1/leverage', { symbol, leverage }),
+      changeMarginType: (symbol: string, marginType: 'ISOLATED' | 'CROSSED') =>
+        signedPost<{ code: number; msg: string }>('/fapi/v1/marginType', { symbol, marginType }),
+      // Account-wide: true is hedge mode (separate LONG and SHORT legs per symbol)
+      positionMode: () => signedGet<{ dualSidePosition: boolean }>('/fapi/v1/positionSide/dual'),
+      changePositionMode: (dualSidePosition: boolean) =>
+        signedPost<{ code: number; msg: string }>('/fapi/v1/positionSide/dual', { dualSidePosition: String(dualSidePosition) }),
+
+      // Orders
+      newOrder: (p: AsterOrderParams) => signedPost<AsterOrder>('/fapi/v1/order', p),
+      queryOrder: (p: { symbol: string; orderId?: number; origClientOrderId?: string }) => signedGet<AsterOrder>('/fapi/v1/order', p),
+      openOrders: (symbol: string) => signedGet<AsterOrder[]>('/fapi/v1/openOrders', { symbol }),
+      cancelOrder: (p: { symbol: string; orderId?: number; origClientOrderId?: string }) => signedDelete<AsterOrder>('/fapi/v1/order', p),
+      // Dead-man's switch: cancels every open order on the symbol unless renewed within countdownTime ms
+      // (0 stops the countdown). Re-arming only moves the deadline, so it is safe to retry.
+      countdownCancelAll: (symbol: string, countdownTime: number) =>
+        send<{ symbol: string; countdownTime: string }>('POST', '/fapi/v1/countdownCancelAll', { symbol, countdownTime }, { signed: true, idempotent: true, priority }),
+
+      // User data stream: a listenKey lives 60 minutes unless kept alive
+      startUserStream: () => keyed<{ listenKey: string }>('POST', '/fapi/v1/listenKey'),
+      keepaliveUserStream: () => keyed<{}>('PUT', '/fapi/v1/listenKey'),
+      closeUserStream: () => keyed<{}>('DELETE', '/fapi/v1/listenKey')
+    };
+  }
+
+  return {
+    configured: !!(base && apiKey && apiSecret),
+    recvWindow,
+    syncClock,
+    serverNow,
+    clockState: () => clock,
+    rateState: async () => ({ ...(await loadRate()), usedWeight: currentWeight(), orderCount: currentOrders() }),
+    persistRate,
+    // True when a call at this priority would currently be held back
+    deferred: async (priority: AsterPriority) => (await deferReason(priority, false)) !== null,
+    ...api('normal'),
+    critical: api('critical'),
+    low: api('low')
+  };
+}
@@ -1,12 +1,32 @@
 import { keccak_256 } from 'js-sha3';
 import * as secp from '@noble/secp256k1';
 import { reconstructEquitySegment } from './reconstruct';
+import { createAsterClient, asterErrorInfo, AsterApiError } from './aster';
+import type { AsterClient, AsterDepth, AsterOrder, AsterOrderParams, AsterPositionRisk, AsterUserTrade } from './aster';
+import { createSymbolRules, checkOrder, roundQty, roundPrice, minMarketQty, isAlgoOrderType } from './symbol-rules';
+import type { SymbolRules } from './symbol-rules';
+import { netIntent, sizingPolicy, positionSize, DEFAULT_SIZING } from './sizing';
+import type { NetIntent, SizingPolicy } from './sizing';
+import { kvGetJson, kvPutJson, appendLog, getOpenTrades, setOpenTrades, appendClosedTrade, tradeKey, tradeOn, netPnl } from './ledger';
+import type { OpenTrade, ClosedTrade, StopRules } from './ledger';
+import { callUserStream, getUserStreamStatus, userStreamLive } from './user-stream';
+import { createMarketData } from './market-stream';
+import type { MarketData } from './market-stream';
+
+export { AsterUserStream } from './user-stream';
+export { AsterMarketStream } from './market-stream';
 
 export interface Env {
   MEAP_KV: KVNamespace;
   OPENAI_API_KEY?: string;
   ASTER_PRIVATE_KEY?: string;
   ASTER_API_BASE?: string;
+  ASTER_API_KEY?: string;
+  ASTER_API_SECRET?: string;
+  ASTER_RECV_WINDOW?: string; // ms, default 5000
+  ASTER_WS_BASE?: string; // default wss://fstream.asterdex.com
+  USER_STREAM?: DurableObjectNamespace;
+  MARKET_STREAM?: DurableObjectNamespace;
   ADMIN_KEY?: string;
   QWEN_API_KEY?: string;
   QWEN_BASE_URL?: string; // default: https://dashscope.aliyuncs.com/compatible-mode/v1
@@ -170,21 +190,6 @@ async function hmacHex(alg: 'SHA-256', secret: string, message: string): Promise
   return Array.from(new Uint8Array(sig)).map(b => b.toString(16).padStart(2,'0')).join('');
 }
 
-async function asterFapiGetJson(env: Env, path: string): Promise<any | null> {
-  const base = (env.ASTER_API_BASE || '').trim().replace(/\/+$/, '');
-  const apiKey = env.ASTER_API_KEY;
-  const apiSecret = env.ASTER_API_SECRET;
-  if (!base || !apiKey || !apiSecret) return null;
-  const ts = Date.now(); // ms per Binance spec
-  const recv = 5000;
-  const query = `timestamp=${ts}&recvWindow=${recv}`;
-  const sig = await hmacHex('SHA-256', apiSecret, query);
-  const url = `${base}${path}?${query}&signature=${sig}`;
-  const r = await fetch(url, { headers: { 'X-MBX-APIKEY': apiKey } });
-  if (!r.ok) return null;
-  return await r.json().catch(() => null);
-}
-
 async function asterFapiGetPublicJson(env: Env, pathWithQuery: string): Promise<any | null> {
   const base = (env.ASTER_API_BASE || '').trim().replace(/\/+$/, '');
   if (!base) return null;
@@ -193,6 +198,1431 @@ async function asterFapiGetPublicJson(env: Env, pathWithQuery: string): Promise<
   return await r.json().catch(() => null);
 }
 
+// ---------- Order intents ----------
+// Every order is recorded under its client order id before it is sent and updated with the
+// exchange's answer, so a retried tick or a timed-out request never submits the same order twice.
+type OrderIntent = {
+  clientOrderId: string;
+  tickId: string;
+  purpose: string;     // open, o1…/om (entry re-prices, market top-up), c1…, sl, tp, adm
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  qty: number;
+  createdAt: number;
+  updatedAt: number;
+  status: 'pending' | 'unknown' | 'rejected' | AsterOrder['status'];
+  orderId?: number;
+  executedQty?: string;
+  avgPrice?: string;
+  error?: string;
+};
+const INTENTS_KEY = '/vibe_order_intents.json';
+const INTENTS_CAP = 500;
+
+// Minute bucket of the tick start; a cron retry carries the same scheduledTime and gets the same id
+function tickIdFor(at: number): string {
+  return Math.floor(at / 60000).toString(36);
+}
+
+// Manual ticks (m) and admin actions (a) are not retried by the platform. A millisecond id keeps
+// them from replaying the orders of a cron tick in the same minute.
+function adhocTickId(kind: 'm' | 'a'): string {
+  return kind + Date.now().toString(36);
+}
+
+// Client order ids must match ^[.A-Z:/a-z0-9_-]{1,36}$. Orders on a hedge-mode leg end in _L or _S
+// so the same purpose on both legs of a symbol in one tick gets two ids.
+function clientOrderIdFor(tickId: string, purpose: string, symbol: string, positionSide?: AsterOrderParams['positionSide']): string {
+  const suffix = positionSide === 'LONG' ? '_L' : positionSide === 'SHORT' ? '_S' : '';
+  return `nm_${tickId}_${purpose}_${symbol}`.replace(/[^.A-Za-z0-9:/_-]/g, '').slice(0, 36 - suffix.length) + suffix;
+}
+
+async function getOrderIntents(env: Env, url: URL): Promise<Record<string, OrderIntent>> {
+  return (await kvGetJson<Record<string, OrderIntent>>(env, url, INTENTS_KEY, {})) || {};
+}
+
+async function putOrderIntent(env: Env, url: URL, intent: OrderIntent) {
+  const map = await getOrderIntents(env, url);
+  map[intent.clientOrderId] = intent;
+  const keys = Object.keys(map);
+  if (keys.length > INTENTS_CAP) {
+    keys.sort((a, b) => map[a].createdAt - map[b].createdAt).slice(0, keys.length - INTENTS_CAP).forEach(k => delete map[k]);
+  }
+  await kvPutJson(env, url, INTENTS_KEY, map);
+}
+
+function intentFromOrder(intent: OrderIntent, order: AsterOrder): OrderIntent {
+  return { ...intent, status: order.status, orderId: order.orderId, executedQty: order.executedQty, avgPrice: order.avgPrice, error: undefined, updatedAt: Date.now() };
+}
+
+// An order the exchange closed without filling anything did nothing; any other answer stands
+function orderOk(order: AsterOrder): boolean {
+  return Number(order.executedQty) > 0 || !['CANCELED', 'EXPIRED', 'REJECTED'].includes(order.status);
+}
+
+// Symbol rules and reference price an order is validated against before it is sent
+type OrderGuard = { rules: SymbolRules | null; markPrice: number; openAlgoOrders?: number };
+
+// Send an order through the Aster client, keeping the { status, ok, body } shape used by vibe_order logs.
+// An intent already on record is answered from the exchange instead of being sent again.
+async function sendOrder(
+  env: Env,
+  url: URL,
+  aster: Pick<AsterClient, 'newOrder' | 'queryOrder'>,
+  tickId: string,
+  purpose: string,
+  params: AsterOrderParams,
+  guard: OrderGuard
+): Promise<{ status: number; ok: boolean; order: AsterOrder | null; body: any; replayed?: boolean }> {
+  const clientOrderId = params.newClientOrderId || clientOrderIdFor(tickId, purpose, params.symbol, params.positionSide);
+  const byClientId = () => aster.queryOrder({ symbol: params.symbol, origClientOrderId: clientOrderId });
+  const prior = (await getOrderIntents(env, url))[clientOrderId];
+  if (prior && prior.status !== 'rejected') {
+    try {
+      const order = await byClientId();
+      await putOrderIntent(env, url, intentFromOrder(prior, order));
+      return { status: 200, ok: orderOk(order), order, body: order, replayed: true };
+    } catch (e: any) {
+      // Anything but "no such order" leaves the outcome open; do not risk a second submission
+      if (!(e instanceof AsterApiError && e.kind === 'no_such_order')) {
+        return { status: e instanceof AsterApiError ? e.status : 0, ok: false, order: null, body: { ...asterErrorInfo(e), clientOrderId, intent: prior.status } };
+      }
+    }
+  }
+  const intent: OrderIntent = {
+    clientOrderId,
+    tickId,
+    purpose,
+    symbol: params.symbol,
+    side: params.side,
+    type: params.type,
+    qty: Number(params.quantity || 0),
+    createdAt: prior?.createdAt || Date.now(),
+    updatedAt: Date.now(),
+    status: 'pending'
+  };
+  // Anything the exchange filters would reject fails here, before an intent goes out
+  const checked = checkOrder(guard.rules, params, guard.markPrice, guard.openAlgoOrders);
+  if (!checked.ok) {
+    await putOrderIntent(env, url, { ...intent, status: 'rejected', error: checked.reason });
+    return { status: 0, ok: false, order: null, body: { error: checked.reason, kind: 'filter', local: true, clientOrderId } };
+  }
+  await putOrderIntent(env, url, intent);
+  try {
+    const order = await aster.newOrder({ ...checked.params, newClientOrderId: clientOrderId });
+    await putOrderIntent(env, url, intentFromOrder(intent, order));
+    return { status: 200, ok: orderOk(order), order, body: order };
+  } catch (e: any) {
+    const info = asterErrorInfo(e);
+    // Timeouts, 5xx and -1006/-1007 do not say whether the order was accepted: ask by client id
+    const ambiguous = !(e instanceof AsterApiError) || e.kind === 'network' || e.kind === 'server' || e.kind === 'unknown_status';
+    if (ambiguous) {
+      try {
+        const order = await byClientId();
+        await putOrderIntent(env, url, intentFromOrder(intent, order));
+        return { status: 200, ok: orderOk(order), order, body: order };
+      } catch (qe: any) {
+        const gone = qe instanceof AsterApiError && qe.kind === 'no_such_order';
+        await putOrderIntent(env, url, { ...intent, status: gone ? 'rejected' : 'unknown', error: info.error, updatedAt: Date.now() });
+        return { status: e instanceof AsterApiError ? e.status : 0, ok: false, order: null, body: { ...info, clientOrderId } };
+      }
+    }
+    await putOrderIntent(env, url, { ...intent, status: 'rejected', error: info.error, updatedAt: Date.now() });
+    return { status: e instanceof AsterApiError ? e.status : 0, ok: false, order: null, body: { ...info, clientOrderId } };
+  }
+}
+
+// ---------- Entry execution ----------
+// How entries are worked. `limit` rests a GTC order at our side of the book (bid for buys, ask
+// for sells); `post_only` does the same with GTX, which the exchange expires instead of letting
+// it take. An unfilled order is cancelled after waitSec and re-priced at the new touch up to
+// `chases` times; whatever is still open then goes out at market unless fallback is 'none'.
+// Market legs are priced against the order book first and shrunk or dropped above maxSlippageBps.
+// The resting orders of one entry wait ENTRY_WAIT_BUDGET_MS at most in total, whatever waitSec and
+// chases add up to, so the cron tick finishes inside its one-minute interval.
+type ExecutionPolicy = {
+  mode: 'market' | 'limit' | 'post_only';
+  waitSec: number;
+  chases: number;
+  fallback: 'market' | 'none';
+  maxSlippageBps: number;            // expected average fill vs mid; 0 skips the depth check
+  onSlippage: 'shrink' | 'reject';
+};
+
+const DEFAULT_EXECUTION: ExecutionPolicy = { mode: 'market', waitSec: 10, chases: 2, fallback: 'market', maxSlippageBps: 30, onSlippage: 'shrink' };
+const ENTRY_WAIT_BUDGET_MS = 30_000;
+
+function executionPolicy(input: any, base: ExecutionPolicy = DEFAULT_EXECUTION): ExecutionPolicy {
+  return {
+    mode: ['market', 'limit', 'post_only'].includes(input?.mode) ? input.mode : base.mode,
+    waitSec: Math.max(1, Math.min(60, Number(input?.waitSec ?? base.waitSec) || base.waitSec)),
+    chases: Math.max(0, Math.min(5, Math.floor(Number(input?.chases ?? base.chases)) || 0)),
+    fallback: input?.fallback === 'market' || input?.fallback === 'none' ? input.fallback : base.fallback,
+    maxSlippageBps: Math.max(0, Number(input?.maxSlippageBps ?? base.maxSlippageBps ?? DEFAULT_EXECUTION.maxSlippageBps) || 0),
+    onSlippage: input?.onSlippage === 'shrink' || input?.onSlippage === 'reject' ? input.onSlippage : base.onSlippage || DEFAULT_EXECUTION.onSlippage
+  };
+}
+
+// ---------- Pre-trade slippage ----------
+// Expected cost of a market order from the visible book, kept next to the realized fill so
+// expected and actual slippage can be compared per symbol.
+type DepthEstimate = {
+  mid: number;
+  avgPrice: number;   // over the fillable quantity
+  bps: number;        // avgPrice vs mid, positive when it costs us
+  fillable: number;   // less than the quantity when the fetched levels run out
+};
+
+type SlippageRecord = {
+  at: number;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  requestedQty: number;
+  qty: number;            // sent after shrinking; 0 when rejected
+  mid: number;
+  expectedPrice: number | null;
+  expectedBps: number | null;
+  avgPrice?: number;      // reported by the exchange
+  actualBps?: number;
+  action: 'sent' | 'shrunk' | 'rejected';
+};
+const SLIPPAGE_KEY = '/vibe_slippage.json';
+const SLIPPAGE_CAP = 1000;
+
+// Walk the side of the book a market order takes
+function estimateFill(depth: AsterDepth, side: 'BUY' | 'SELL', qty: number): DepthEstimate | null {
+  const bid = Number(depth?.bids?.[0]?.[0]);
+  const ask = Number(depth?.asks?.[0]?.[0]);
+  if (!(bid > 0) || !(ask > 0) || !(qty > 0)) return null;
+  const mid = (bid + ask) / 2;
+  let left = qty;
+  let cost = 0;
+  for (const [p, q] of side === 'BUY' ? depth.asks : depth.bids) {
+    const take = Math.min(left, Number(q) || 0);
+    cost += take * Number(p);
+    left -= take;
+    if (left <= 0) break;
+  }
+  const fillable = qty - Math.max(0, left);
+  if (!(fillable > 0)) return null;
+  const avgPrice = cost / fillable;
+  return { mid, avgPrice, bps: ((side === 'BUY' ? avgPrice - mid : mid - avgPrice) / mid) * 10_000, fillable };
+}
+
+function slippageBps(side: 'BUY' | 'SELL', price: number, mid: number): number {
+  return ((side === 'BUY' ? price - mid : mid - price) / mid) * 10_000;
+}
+
+// Largest quantity the book takes within maxBps, on the market lot grid (average cost grows with size)
+function maxQtyWithin(depth: AsterDepth, side: 'BUY' | 'SELL', qty: number, maxBps: number, rules: SymbolRules | null): number {
+  const fits = (q: number) => { const e = estimateFill(depth, side, q); return !!e && e.fillable >= q && e.bps <= maxBps; };
+  let lo = 0;
+  let hi = qty;
+  for (let i = 0; i < 30; i++) {
+    const m = (lo + hi) / 2;
+    if (fits(m)) lo = m; else hi = m;
+  }
+  return rules ? roundQty(rules, lo, true) : lo;
+}
+
+async function appendSlippage(env: Env, url: URL, rec: SlippageRecord) {
+  const list = await kvGetJson<SlippageRecord[]>(env, url, SLIPPAGE_KEY, []);
+  list.push(rec);
+  if (list.length > SLIPPAGE_CAP) list.splice(0, list.length - SLIPPAGE_CAP);
+  await kvPutJson(env, url, SLIPPAGE_KEY, list);
+}
+
+// Aggregate of every child order an entry sent
+type EntryFill = {
+  ok: boolean;        // some quantity filled
+  status: number;     // last order's status and body, for vibe_order logs
+  body: any;
+  qty: number;
+  avgPrice: number;   // executed-quantity weighted over all child orders
+  makerQty: number;   // filled by resting limit orders
+  orderId?: number;   // last order that filled; the user stream records it as entryOrderId
+  orderIds: number[]; // every order that filled some quantity
+  orders: number;
+  pending?: { orderId: number; qty: number }; // market order accepted but not filled yet
+};
+
+async function executeEntry(
+  env: Env,
+  url: URL,
+  aster: AsterClient,
+  market: MarketData,
+  tickId: string,
+  policy: ExecutionPolicy,
+  params: AsterOrderParams,
+  guard: OrderGuard,
+  slice = 0           // TWAP slice number; its orders get t<n>-prefixed purposes
+): Promise<EntryFill> {
+  const pre = slice ? `t${slice}` : '';
+  const target = Number(params.quantity);
+  const fill: EntryFill = { ok: false, status: 0, body: null, qty: 0, avgPrice: 0, makerQty: 0, orderIds: [], orders: 0 };
+  let notional = 0;
+  const take = (order: AsterOrder, maker: boolean) => {
+    const q = Number(order.executedQty) || 0;
+    if (!(q > 0)) return;
+    notional += q * (Number(order.avgPrice) || Number(order.price) || guard.markPrice);
+    fill.qty = Number((fill.qty + q).toFixed(8));
+    if (maker) fill.makerQty = Number((fill.makerQty + q).toFixed(8));
+    fill.orderId = order.orderId;
+    if (!fill.orderIds.includes(order.orderId)) fill.orderIds.push(order.orderId);
+  };
+  const left = (marketLot: boolean) => guard.rules ? roundQty(guard.rules, target - fill.qty, marketLot) : target - fill.qty;
+
+  if (policy.mode !== 'market') {
+    const budgetEnd = Date.now() + ENTRY_WAIT_BUDGET_MS;
+    for (let attempt = 0; attempt <= policy.chases; attempt++) {
+      const quantity = left(false);
+      if (!(quantity > 0) || Date.now() >= budgetEnd) break;
+      const book = await market.book(params.symbol, aster);
+      if (!book) break;
+      const touch = params.side === 'BUY' ? book.bid : book.ask;
+      const price = guard.rules ? roundPrice(guard.rules, touch) : touch;
+      const timeInForce = policy.mode === 'post_only' ? 'GTX' : 'GTC';
+      const r = await sendOrder(env, url, aster, tickId, attempt ? `${pre}o${attempt}` : pre || 'open', { ...params, type: 'LIMIT', price, quantity, timeInForce }, guard);
+      fill.orders++;
+      fill.status = r.status;
+      fill.body = r.body;
+      // A local filter rejection will not pass on the next touch either; an exchange rejection
+      // (e.g. -5022 post-only would take) is retried at the new price
+      if (!r.ok || !r.order) { if (r.body?.local) break; continue; }
+      let order = r.order;
+      const deadline = Math.min(Date.now() + policy.waitSec * 1000, budgetEnd);
+      while ((order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') && Date.now() < deadline) {
+        await new Promise(res => setTimeout(res, 1000));
+        order = await aster.queryOrder({ symbol: params.symbol, orderId: order.orderId }).catch(() => order);
+      }
+      if (order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') {
+        // A fill racing the cancel makes it fail with -2011; the query then has the final quantity
+        const open = order;
+        order = await aster.cancelOrder({ symbol: params.symbol, orderId: open.orderId })
+          .catch(() => aster.queryOrder({ symbol: params.symbol, orderId: open.orderId }))
+          .catch(() => open);
+      }
+      take(order, true);
+      fill.body = order;
+    }
+  }
+
+  let quantity = left(true);
+  if (quantity > 0 && (policy.mode === 'market' || policy.fallback === 'market')) {
+    // Price the order against the book; without depth it goes out unchecked
+    const depth = policy.maxSlippageBps > 0 ? await aster.depth(params.symbol, 100).catch(() => null) : null;
+    const estimate = depth ? estimateFill(depth, params.side, quantity) : null;
+    let rec: SlippageRecord | null = null;
+    if (depth && estimate) {
+      const within = estimate.fillable >= quantity && estimate.bps <= policy.maxSlippageBps;
+      const allowed = within ? quantity : policy.onSlippage === 'shrink' ? maxQtyWithin(depth, params.side, quantity, policy.maxSlippageBps, guard.rules) : 0;
+      const minQty = guard.rules ? minMarketQty(guard.rules, estimate.mid) : 0;
+      const sent = allowed > 0 && allowed >= minQty ? allowed : 0;
+      const expected = sent > 0 ? estimateFill(depth, params.side, sent) : estimate;
+      rec = {
+        at: Date.now(),
+        symbol: params.symbol,
+        side: params.side,
+        requestedQty: quantity,
+        qty: sent,
+        mid: estimate.mid,
+        expectedPrice: expected ? expected.avgPrice : null,
+        expectedBps: expected ? expected.bps : null,
+        action: sent === quantity ? 'sent' : sent > 0 ? 'shrunk' : 'rejected'
+      };
+      if (rec.action !== 'sent') {
+        await appendLog(env, url, { type: 'vibe_slippage', symbol: params.symbol, side: params.side, action: rec.action, requestedQty: quantity, qty: sent, expectedBps: estimate.fillable >= quantity ? estimate.bps : null, maxBps: policy.maxSlippageBps });
+      }
+      quantity = sent;
+    }
+    if (quantity > 0) {
+      const r = await sendOrder(env, url, aster, tickId, policy.mode === 'market' ? pre || 'open' : `${pre}om`, { ...params, type: 'MARKET', quantity }, guard);
+      fill.orders++;
+      fill.status = r.status;
+      fill.body = r.body;
+      if (r.ok && r.order) {
+        let order = r.order;
+        // An ACK response carries no fill yet; ask once. Still unfilled, the order is left to the
+        // next tick or the user stream to settle; only reported fills are booked.
+        if (!(Number(order.executedQty) > 0)) order = await aster.queryOrder({ symbol: params.symbol, orderId: order.orderId }).catch(() => order);
+        const reported = Number(order.executedQty) > 0 ? Number(order.avgPrice) || 0 : 0;
+        if (rec && reported > 0) { rec.avgPrice = reported; rec.actualBps = slippageBps(params.side, reported, rec.mid); }
+        take(order, false);
+        if (!(Number(order.executedQty) > 0) && order.status === 'NEW') fill.pending = { orderId: order.orderId, qty: quantity };
+      }
+    } else if (rec) {
+      fill.body = { error: `expected slippage above ${policy.maxSlippageBps} bps`, kind: 'slippage', local: true };
+    }
+    if (rec) await appendSlippage(env, url, rec);
+  }
+  fill.ok = fill.qty > 0;
+  fill.avgPrice = fill.qty > 0 ? notional / fill.qty : 0;
+  return fill;
+}
+
+// ---------- Exposure caps ----------
+// maxExposureUsd caps the summed notional of every position on the account and exposure.symbols
+// caps one symbol (both legs in hedge mode), each valued at the mark from positionRisk. An entry
+// that would take either past its cap is cut to the room left, or skipped with onBreach 'reject'.
+type ExposurePolicy = {
+  symbols: Record<string, number>;   // per-symbol notional caps
+  onBreach: 'shrink' | 'reject';
+};
+
+const DEFAULT_EXPOSURE: ExposurePolicy = { symbols: {}, onBreach: 'shrink' };
+
+function exposurePolicy(input: any, base: ExposurePolicy = DEFAULT_EXPOSURE): ExposurePolicy {
+  const symbols: Record<string, number> = {};
+  const source = input?.symbols && typeof input.symbols === 'object' ? input.symbols : base.symbols;
+  for (const [sym, v] of Object.entries(source || {})) if (Number(v) > 0) symbols[sym.toUpperCase()] = Number(v);
+  return {
+    symbols,
+    onBreach: input?.onBreach === 'shrink' || input?.onBreach === 'reject' ? input.onBreach : base.onBreach || DEFAULT_EXPOSURE.onBreach
+  };
+}
+
+// Live notional on the account and the symbol, and how much an entry on `side` may add. In one-way
+// mode an entry against the held position nets it down first, so that much is always allowed.
+function exposureRoom(positions: AsterPositionRisk[], symbol: string, side: 'LONG' | 'SHORT', hedge: boolean, capUsd: number, symbolCapUsd: number) {
+  let totalUsd = 0;
+  let symbolUsd = 0;
+  let held = 0;
+  for (const p of positions) {
+    const n = Number(p.positionAmt || 0) * Number(p.markPrice || 0);
+    if (!Number.isFinite(n)) continue;
+    totalUsd += Math.abs(n);
+    if (p.symbol !== symbol) continue;
+    symbolUsd += Math.abs(n);
+    if (!hedge || p.positionSide === side) held += n;
+  }
+  const against = !hedge && held * (side === 'LONG' ? 1 : -1) < 0 ? Math.abs(held) : 0;
+  const accountLimit = capUsd - (totalUsd - symbolUsd);
+  const limit = Math.min(accountLimit, symbolCapUsd);
+  const roomUsd = Math.max(0, against > 0 ? against + Math.max(0, limit) : limit - symbolUsd);
+  return { totalUsd, symbolUsd, roomUsd, binding: symbolCapUsd < accountLimit ? 'symbol' as const : 'account' as const };
+}
+
+// The quantity to send: `qty` itself, a smaller lot that fits the caps, or 0 when the entry is
+// refused. Positions that cannot be read refuse the entry rather than send it unchecked.
+async function capExposure(env: Env, url: URL, aster: AsterClient, cfg: VibeConfig, symbol: string, side: 'LONG' | 'SHORT', hedge: boolean, qty: number, price: number, rules: SymbolRules | null): Promise<number> {
+  const policy = exposurePolicy(cfg.exposure);
+  const capUsd = Number(cfg.maxExposureUsd) > 0 ? Number(cfg.maxExposureUsd) : Infinity;
+  const symbolCapUsd = policy.symbols[symbol] ?? Infinity;
+  if (capUsd === Infinity && symbolCapUsd === Infinity) return qty;
+  let positions: AsterPositionRisk[];
+  try {
+    positions = await aster.positionRisk();
+  } catch (e: any) {
+    await appendLog(env, url, { type: 'vibe_error', where: 'exposure', symbol, ...asterErrorInfo(e) });
+    return 0;
+  }
+  const { totalUsd, symbolUsd, roomUsd, binding } = exposureRoom(positions, symbol, side, hedge, capUsd, symbolCapUsd);
+  const requestedUsd = qty * price;
+  if (requestedUsd <= roomUsd) return qty;
+  let allowed = policy.onBreach === 'shrink' ? (rules ? roundQty(rules, roomUsd / price, true) : roomUsd / price) : 0;
+  if (rules && allowed > 0 && allowed < minMarketQty(rules, price)) allowed = 0;
+  const cap = binding === 'symbol' ? `${symbol} cap ${symbolCapUsd}` : `account cap ${capUsd}`;
+  await appendLog(env, url, {
+    type: 'vibe_exposure',
+    symbol,
+    side,
+    action: allowed > 0 ? 'shrink' : 'reject',
+    requestedUsd: Math.round(requestedUsd * 100) / 100,
+    allowedUsd: Math.round(allowed * price * 100) / 100,
+    totalUsd: Math.round(totalUsd * 100) / 100,
+    symbolUsd: Math.round(symbolUsd * 100) / 100,
+    reason: `${requestedUsd.toFixed(2)} would exceed ${cap} with ${totalUsd.toFixed(2)} held (${symbolUsd.toFixed(2)} on ${symbol}); room ${roomUsd.toFixed(2)}`
+  });
+  return allowed;
+}
+
+// ---------- Sliced (TWAP) entries ----------
+// Entries whose notional exceeds the symbol's threshold are split into `slices` child entries,
+// one per tick. The first goes out with the decision; runTwapJobs works the rest from KV, so the
+// schedule survives across cron invocations, and folds every fill into the open trade.
+type TwapPolicy = {
+  thresholdUsd: number;              // 0 leaves symbols without their own threshold unsliced
+  symbols: Record<string, number>;   // per-symbol thresholds for thin books
+  slices: number;
+};
+
+const DEFAULT_TWAP: TwapPolicy = { thresholdUsd: 0, symbols: { ZORAUSDT: 1000, PUMPUSDT: 1000 }, slices: 5 };
+
+function twapPolicy(input: any, base: TwapPolicy = DEFAULT_TWAP): TwapPolicy {
+  const symbols: Record<string, number> = {};
+  const source = input?.symbols && typeof input.symbols === 'object' ? input.symbols : base.symbols;
+  for (const [sym, v] of Object.entries(source || {})) if (Number(v) >= 0) symbols[sym.toUpperCase()] = Number(v);
+  return {
+    thresholdUsd: Math.max(0, Number(input?.thresholdUsd ?? base.thresholdUsd) || 0),
+    symbols,
+    slices: Math.max(2, Math.min(30, Math.floor(Number(input?.slices ?? base.slices)) || base.slices))
+  };
+}
+
+type TwapJob = {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  positionSide?: 'LONG' | 'SHORT';
+  targetQty: number;
+  slices: number;
+  done: number;            // slices sent, including ones that filled nothing
+  filledQty: number;
+  filledNotional: number;
+  lastOrderId?: number;
+  pendingOrderId?: number; // slice the exchange accepted without filling; settled before the next
+  lastTickId: string;      // a retried tick does not send a second slice
+  status: 'running' | 'done' | 'cancelled';
+  startedAt: number;
+  updatedAt: number;
+};
+const TWAP_KEY = '/vibe_twap_jobs.json';
+
+// Number of slices for an entry, or null when it goes out whole
+function twapSlices(policy: TwapPolicy, symbol: string, qty: number, price: number, rules: SymbolRules | null): number | null {
+  const threshold = policy.symbols[symbol] ?? policy.thresholdUsd;
+  if (!(threshold > 0) || qty * price <= threshold) return null;
+  // Every slice must still clear the minimum lot and minNotional
+  const minQty = rules ? minMarketQty(rules, price) : 0;
+  const slices = minQty > 0 ? Math.min(policy.slices, Math.floor(qty / minQty)) : policy.slices;
+  return slices >= 2 ? slices : null;
+}
+
+async function getTwapJobs(env: Env, url: URL): Promise<Record<string, TwapJob>> {
+  return (await kvGetJson<Record<string, TwapJob>>(env, url, TWAP_KEY, {})) || {};
+}
+
+// A new entry on a leg replaces whatever schedule was still working it
+async function cancelTwapJobs(env: Env, url: URL, symbol: string, side?: 'LONG' | 'SHORT', reason = 'Replaced by new entry') {
+  const jobs = await getTwapJobs(env, url);
+  let changed = false;
+  for (const [key, job] of Object.entries(jobs)) {
+    if (job.symbol !== symbol || (side && job.side !== side)) continue;
+    if (job.status === 'running') await appendLog(env, url, { type: 'vibe_twap', event: 'cancelled', symbol, side: job.side, done: job.done, slices: job.slices, filledQty: job.filledQty, reason });
+    delete jobs[key];
+    changed = true;
+  }
+  if (changed) await kvPutJson(env, url, TWAP_KEY, jobs);
+}
+
+// Send the next slice of every running schedule and fold the fill into its open trade
+async function runTwapJobs(env: Env, url: URL, aster: AsterClient, market: MarketData, symbolRules: ReturnType<typeof createSymbolRules>, tickId: string, policy: ExecutionPolicy, streamLive: boolean) {
+  const jobs = await getTwapJobs(env, url);
+  for (const [key, job] of Object.entries(jobs)) {
+    if (job.status !== 'running' || job.lastTickId === tickId) continue;
+    if (!(await getOpenTrades(env, url))[key]) {
+      // Stopped out, taken profit or closed by an admin before the schedule finished
+      job.status = 'cancelled';
+      job.updatedAt = Date.now();
+      await appendLog(env, url, { type: 'vibe_twap', event: 'cancelled', symbol: job.symbol, side: job.side, done: job.done, slices: job.slices, filledQty: job.filledQty, reason: 'Trade closed' });
+      continue;
+    }
+    // A slice accepted without a fill is settled before the next one goes out
+    if (job.pendingOrderId) {
+      const order = await aster.queryOrder({ symbol: job.symbol, orderId: job.pendingOrderId }).catch(() => null);
+      if (!order || order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') continue;
+      const q = Number(order.executedQty) || 0;
+      if (q > 0) {
+        job.filledQty = Number((job.filledQty + q).toFixed(8));
+        job.filledNotional += q * (Number(order.avgPrice) || 0);
+        job.lastOrderId = order.orderId;
+      }
+      await appendLog(env, url, { type: 'vibe_twap', event: 'settled', symbol: job.symbol, side: job.side, orderId: order.orderId, status: order.status, filledQty: q });
+      job.pendingOrderId = undefined;
+    }
+    const price = await market.price(job.symbol, aster);
+    if (!price) continue;
+    const rules = await symbolRules.get(job.symbol);
+    const minQty = rules ? minMarketQty(rules, price) : 0;
+    job.lastTickId = tickId;
+    job.updatedAt = Date.now();
+    if (job.done < job.slices) {
+      const remaining = job.targetQty - job.filledQty;
+      const slicesLeft = job.slices - job.done;
+      let qty = rules ? roundQty(rules, remaining / slicesLeft, true) : remaining / slicesLeft;
+      // The last slice, or one that would strand less than a lot, takes everything left
+      if (slicesLeft <= 1 || remaining - qty < minQty) qty = rules ? roundQty(rules, remaining, true) : remaining;
+      job.done++;
+      if (qty > 0 && qty >= minQty) {
+        const side = job.side === 'LONG' ? 'BUY' : 'SELL';
+        const r = await executeEntry(env, url, aster, market, tickId, policy, { symbol: job.symbol, side, type: 'MARKET', quantity: qty, ...(job.positionSide ? { positionSide: job.positionSide } : {}) }, { rules, markPrice: price }, job.done);
+        await appendLog(env, url, { type: 'vibe_order', status: r.status, ok: r.ok, symbol: job.symbol, side, qty: r.ok ? r.qty : qty, notional: qty * price, body: r.body, pending: !!r.pending, reason: `TWAP slice ${job.done}/${job.slices}` });
+        if (r.ok) {
+          job.filledQty = Number((job.filledQty + r.qty).toFixed(8));
+          job.filledNotional += r.qty * r.avgPrice;
+          job.lastOrderId = r.orderId;
+        }
+        job.pendingOrderId = r.pending?.orderId;
+      }
+    }
+    if (!job.pendingOrderId && (job.done >= job.slices || (rules && roundQty(rules, job.targetQty - job.filledQty, true) < minQty))) job.status = 'done';
+    await kvPutJson(env, url, TWAP_KEY, jobs);
+
+    const open = await getOpenTrades(env, url);
+    const t = open[key];
+    if (!t) continue;
+    const next: OpenTrade = {
+      ...t,
+      ...(job.filledQty > 0 ? { qty: job.filledQty, entryPrice: job.filledNotional / job.filledQty, notionalEntry: job.filledNotional, entryOrderId: job.lastOrderId } : {}),
+      twap: { targetQty: job.targetQty, slices: job.slices, done: job.done, status: job.status }
+    };
+    // Resize the exchange-side protection to the quantity now held
+    let protection: Pick<OpenTrade, 'slOrderId' | 'tpOrderId'> = {};
+    if (next.qty !== t.qty && (t.slOrderId || t.tpOrderId)) {
+      await cancelProtection(aster.critical, t);
+      protection = { slOrderId: undefined, tpOrderId: undefined, ...(await placeProtection(env, url, aster.critical, tickId, next, rules)) };
+    }
+    const latest = streamLive ? await getOpenTrades(env, url) : open;
+    const rec = latest[key];
+    if (!rec) continue;
+    // Fill numbers the stream already wrote for the last slice win over the order responses
+    const synced = rec.filled && rec.entryOrderId === job.lastOrderId ? { qty: rec.qty, entryPrice: rec.entryPrice, notionalEntry: rec.notionalEntry, filled: true } : {};
+    latest[key] = { ...next, ...synced, ...protection };
+    await setOpenTrades(env, url, latest);
+    if (job.status === 'done') await appendLog(env, url, { type: 'vibe_twap', event: 'done', symbol: job.symbol, side: job.side, slices: job.slices, targetQty: job.targetQty, filledQty: job.filledQty, avgPrice: job.filledQty > 0 ? job.filledNotional / job.filledQty : null });
+  }
+}
+
+// ---------- Net position intents ----------
+// netIntent in sizing.ts picks the order; this reads the live position and books the order's fill
+
+// Signed live amount on the leg and its entry price, or the tracked trade's when positionRisk
+// cannot be read
+async function liveHolding(aster: AsterClient, symbol: string, leg: 'LONG' | 'SHORT' | undefined, tracked: OpenTrade | undefined): Promise<{ amount: number; entryPrice: number }> {
+  try {
+    const rows = (await aster.positionRisk(symbol)).filter(p => p.symbol === symbol && (!leg || p.positionSide === leg));
+    const amount = rows.reduce((a, p) => a + (Number(p.positionAmt) || 0), 0);
+    const size = rows.reduce((a, p) => a + Math.abs(Number(p.positionAmt) || 0), 0);
+    const entryPrice = size > 0 ? rows.reduce((a, p) => a + Math.abs(Number(p.positionAmt) || 0) * (Number(p.entryPrice) || 0), 0) / size : 0;
+    return { amount, entryPrice };
+  } catch {
+    return tracked ? { amount: tracked.side === 'LONG' ? tracked.qty : -tracked.qty, entryPrice: tracked.entryPrice } : { amount: 0, entryPrice: 0 };
+  }
+}
+
+// What an entry or trim decision sent, kept so its fill can be booked when it arrives
+type IntentOrder = {
+  symbol: string;
+  action: 'LONG' | 'SHORT';
+  leg?: 'LONG' | 'SHORT';          // hedge-mode leg
+  kind: NetIntent['kind'];
+  heldQty: number;
+  heldEntryPrice?: number;          // exchange entry price of what was held
+  plan: Pick<OpenTrade, 'thesis' | 'stopLoss' | 'takeProfit' | 'minHoldMs'>;
+  provider?: string;
+  model?: string;
+  twap?: { targetQty: number; slices: number; refPrice: number }; // first slice of a TWAP entry
+};
+
+// Market entries the exchange accepted without a fill, by order id
+type PendingEntry = IntentOrder & { orderId: number; qty: number; tickId: string; createdAt: number };
+const PENDING_ENTRIES_KEY = '/vibe_pending_entries.json';
+const PENDING_ENTRY_TTL_MS = 10 * 60 * 1000;
+
+// The ledger follows what the order did to the position: close, trim or add to the tracked trade,
+// or open a new one. With the user stream live its fills book quantities; the plan is ours.
+async function bookIntentFill(env: Env, url: URL, aster: AsterClient, tickId: string, cfg: VibeConfig, rules: SymbolRules | null, streamLive: boolean, o: IntentOrder, r: Pick<EntryFill, 'qty' | 'avgPrice' | 'orderId' | 'orderIds'>) {
+  const now = Date.now();
+  const open = await getOpenTrades(env, url);
+  const existing = tradeOn(open, o.symbol, o.leg);
+  const fillPrice = r.avgPrice;
+  const plan = o.plan;
+  // Part or all of the held trade closed, never more than the order filled. With the stream live its fills book it.
+  const closedQty = existing && (o.kind === 'reduce' || o.kind === 'flip' || o.kind === 'close') ? Math.min(r.qty, existing.qty) : 0;
+  // A flip opens the new side only with what filled past the held size
+  const flipped = o.kind === 'flip' && r.qty > o.heldQty;
+  // A close or flip that filled short of the held size leaves the old trade open, smaller
+  const cut = !!existing && (o.kind === 'close' || (o.kind === 'flip' && !flipped)) && closedQty < existing.qty;
+  if (existing && closedQty > 0 && !streamLive) {
+    const pnlUsd = existing.side === 'LONG' ? (fillPrice - existing.entryPrice) * closedQty : (existing.entryPrice - fillPrice) * closedQty;
+    await appendClosedTrade(env, url, {
+      symbol: o.symbol,
+      side: existing.side,
+      qty: closedQty,
+      entryPrice: existing.entryPrice,
+      exitPrice: fillPrice,
+      notionalEntry: existing.entryPrice * closedQty,
+      notionalExit: Math.abs(closedQty * fillPrice),
+      openedAt: existing.openedAt,
+      closedAt: now,
+      holdingMs: Math.max(0, now - existing.openedAt),
+      pnlUsd,
+      provider: o.provider,
+      model: o.model,
+      thesis: existing.thesis,
+      exitReason: o.kind === 'reduce' || cut ? 'Reduced by new decision' : o.kind === 'flip' ? 'Replaced by new entry' : 'Closed by new decision',
+      exitOrderId: r.orderId,
+      fundingUsd: o.kind === 'reduce' || cut ? undefined : existing.fundingUsd,
+      feesUsd: o.kind === 'reduce' || cut ? undefined : existing.feesUsd,
+      stopHistory: existing.stopHistory,
+      parentId: existing.tradeId,
+      ...(await bookFromFills(env, url, aster, { ...existing, qty: closedQty }, r.orderIds))
+    });
+  }
+  if (existing && (o.kind === 'reduce' || o.kind === 'add' || cut)) {
+    // The same position carries on at its new size: with the new plan after a trim or add, with
+    // its own after a cut close or flip, whose plan was for the other side
+    const key = tradeKey(existing.symbol, existing.side);
+    const kept = cut ? {} : plan;
+    const qtyAfter = Number((o.kind === 'add' ? existing.qty + r.qty : existing.qty - closedQty).toFixed(8));
+    const entryPrice = o.kind === 'add' && qtyAfter > 0 ? (existing.entryPrice * existing.qty + fillPrice * r.qty) / qtyAfter : existing.entryPrice;
+    const moved = typeof kept.stopLoss === 'number' && kept.stopLoss !== existing.stopLoss;
+    const next: OpenTrade = {
+      ...existing,
+      ...kept,
+      qty: qtyAfter,
+      entryPrice,
+      notionalEntry: entryPrice * qtyAfter,
+      ...(o.kind === 'add' ? { entryOrderId: r.orderId, filled: false } : {}),
+      stopRules: existing.stopRules ?? (typeof kept.stopLoss === 'number' ? stopRulesFor(stopPolicy(cfg.stops)) : undefined),
+      stopHistory: moved ? [...(existing.stopHistory || []), { at: now, stopLoss: kept.stopLoss!, reason: 'plan' }] : existing.stopHistory,
+      targets: cut ? existing.targets : undefined
+    };
+    if (!cut) Object.assign(next, scaleOutPlan(scaleOutPolicy(cfg.scaleOut), existing.side, entryPrice, next.stopLoss));
+    await cancelProtection(aster.critical, existing);
+    const protection = { slOrderId: undefined, tpOrderId: undefined, ...(await placeProtection(env, url, aster.critical, tickId, next, rules, 'n')) };
+    const latest = streamLive ? await getOpenTrades(env, url) : open;
+    // With the stream live its fill numbers stand; only the plan and protection are ours
+    latest[key] = streamLive && latest[key] ? { ...latest[key], ...kept, stopRules: next.stopRules, stopHistory: next.stopHistory, targets: next.targets, ...protection } : { ...next, ...protection };
+    await setOpenTrades(env, url, latest);
+    return;
+  }
+  if (existing) await cancelProtection(aster.critical, existing);
+  if (existing && !streamLive) delete open[tradeKey(existing.symbol, existing.side)];
+  if (o.kind === 'close' || o.kind === 'reduce' || (o.kind === 'flip' && !flipped)) {
+    if (!streamLive) await setOpenTrades(env, url, open);
+    return;
+  }
+  // A new position: opened from flat, what a flip left past flat, or an untracked one added to
+  const openedQty = Number((o.kind === 'flip' ? r.qty - o.heldQty : o.kind === 'add' ? r.qty + o.heldQty : r.qty).toFixed(8));
+  // An untracked position added to is seeded from the exchange's size and entry price
+  const entryPrice = o.kind === 'add' && o.heldQty > 0 && (o.heldEntryPrice || 0) > 0 && openedQty > 0 ? (o.heldEntryPrice! * o.heldQty + fillPrice * r.qty) / openedQty : fillPrice;
+  // Fill numbers the stream already wrote for this order win over the order responses
+  const key = tradeKey(o.symbol, o.action);
+  const synced = (m: Record<string, OpenTrade>) => {
+    const rec = m[key];
+    return rec?.filled && rec.entryOrderId === r.orderId ? { qty: rec.qty, entryPrice: rec.entryPrice, notionalEntry: rec.notionalEntry, openedAt: rec.openedAt, filled: true } : {};
+  };
+  const entry: OpenTrade = {
+    symbol: o.symbol,
+    side: o.action,
+    qty: openedQty,
+    entryPrice,
+    notionalEntry: Math.abs(openedQty * entryPrice),
+    openedAt: now,
+    provider: o.provider,
+    model: o.model,
+    ...plan,
+    stopRules: typeof plan.stopLoss === 'number' ? stopRulesFor(stopPolicy(cfg.stops)) : undefined,
+    stopHistory: typeof plan.stopLoss === 'number' ? [{ at: now, stopLoss: plan.stopLoss, reason: 'initial' }] : undefined,
+    tradeId: `${o.symbol}:${o.action}:${now}`,
+    entryOrderId: r.orderId,
+    positionSide: o.leg,
+    twap: o.twap ? { targetQty: o.twap.targetQty, slices: o.twap.slices, done: 1, status: 'running' } : undefined,
+    ...synced(open)
+  };
+  // Scale-out levels are measured from the filled entry; a 100% level replaces the target
+  Object.assign(entry, scaleOutPlan(scaleOutPolicy(cfg.scaleOut), o.action, entry.entryPrice, entry.stopLoss));
+  const protection = await placeProtection(env, url, aster.critical, tickId, entry, rules);
+  const latest = streamLive ? await getOpenTrades(env, url) : open;
+  latest[key] = { ...entry, ...synced(latest), ...protection };
+  await setOpenTrades(env, url, latest);
+  if (o.twap) {
+    const jobs = await getTwapJobs(env, url);
+    jobs[key] = { symbol: o.symbol, side: o.action, positionSide: o.leg, targetQty: o.twap.targetQty, slices: o.twap.slices, done: 1, filledQty: r.qty, filledNotional: r.qty * r.avgPrice, lastOrderId: r.orderId, lastTickId: tickId, status: 'running', startedAt: now, updatedAt: Date.now() };
+    await kvPutJson(env, url, TWAP_KEY, jobs);
+    await appendLog(env, url, { type: 'vibe_twap', event: 'started', symbol: o.symbol, side: o.action, slices: o.twap.slices, targetQty: o.twap.targetQty, notional: o.twap.targetQty * o.twap.refPrice });
+  }
+}
+
+// Book the pending entries that filled since the last tick. One still resting after
+// PENDING_ENTRY_TTL_MS is cancelled; one the exchange closed unfilled is dropped.
+async function settlePendingEntries(env: Env, url: URL, aster: AsterClient, symbolRules: ReturnType<typeof createSymbolRules>, tickId: string, cfg: VibeConfig, streamLive: boolean) {
+  const pending = await kvGetJson<Record<string, PendingEntry>>(env, url, PENDING_ENTRIES_KEY, {});
+  if (!Object.keys(pending).length) return;
+  for (const [id, p] of Object.entries(pending)) {
+    let order = await aster.queryOrder({ symbol: p.symbol, orderId: p.orderId }).catch(() => null);
+    if (!order) continue;
+    if ((order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') && Date.now() - p.createdAt > PENDING_ENTRY_TTL_MS) {
+      const resting = order;
+      order = await aster.cancelOrder({ symbol: p.symbol, orderId: p.orderId }).catch(() => aster.queryOrder({ symbol: p.symbol, orderId: p.orderId })).catch(() => resting);
+    }
+    if (order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') continue;
+    delete pending[id];
+    await kvPutJson(env, url, PENDING_ENTRIES_KEY, pending);
+    const qty = Number(order.executedQty) || 0;
+    await appendLog(env, url, { type: 'vibe_order', event: 'settled', symbol: p.symbol, orderId: p.orderId, status: order.status, ok: qty > 0, qty, intent: p.kind, requestedQty: p.qty });
+    if (qty > 0) {
+      const fill = { qty, avgPrice: Number(order.avgPrice) || 0, orderId: order.orderId, orderIds: [order.orderId] };
+      await bookIntentFill(env, url, aster, tickId, cfg, await symbolRules.get(p.symbol), streamLive, p, fill);
+    }
+  }
+}
+
+// ---------- Protective orders ----------
+// Orders that shrink a position: reduceOnly in one-way mode. Hedge mode rejects reduceOnly; the
+// order names the leg it closes instead.
+function reduceParams(positionSide?: 'BOTH' | 'LONG' | 'SHORT'): Pick<AsterOrderParams, 'positionSide' | 'reduceOnly'> {
+  return positionSide === 'LONG' || positionSide === 'SHORT' ? { positionSide } : { reduceOnly: 'true' };
+}
+
+// Place reduce-only STOP_MARKET / TAKE_PROFIT_MARKET orders for a filled entry so the exchange
+// enforces the plan between ticks. A rejected leg is logged; polling in vibeTick still covers it.
+// `tag` prefixes the purposes so a re-placement gets its own client ids within the tick.
+async function placeProtection(env: Env, url: URL, aster: Pick<AsterClient, 'newOrder' | 'queryOrder' | 'openOrders'>, tickId: string, t: OpenTrade, rules: SymbolRules | null, tag = ''): Promise<Pick<OpenTrade, 'slOrderId' | 'tpOrderId'>> {
+  const side = t.side === 'LONG' ? 'SELL' : 'BUY';
+  const ids: Pick<OpenTrade, 'slOrderId' | 'tpOrderId'> = {};
+  // MAX_NUM_ALGO_ORDERS counts every conditional order already resting on the symbol
+  let openAlgoOrders = (await aster.openOrders(t.symbol).catch(() => [])).filter(o => isAlgoOrderType(o.type)).length;
+  const legs: Array<['slOrderId' | 'tpOrderId', 'sl' | 'tp', 'STOP_MARKET' | 'TAKE_PROFIT_MARKET', number | undefined]> = [
+    ['slOrderId', 'sl', 'STOP_MARKET', t.stopLoss],
+    ['tpOrderId', 'tp', 'TAKE_PROFIT_MARKET', t.takeProfit]
+  ];
+  for (const [field, purpose, type, price] of legs) {
+    if (typeof price !== 'number' || !(price > 0)) continue;
+    const stopPrice = rules ? roundPrice(rules, price) : price;
+    const r = await sendOrder(env, url, aster, tickId, tag + purpose, { symbol: t.symbol, side, type, stopPrice, quantity: t.qty, ...reduceParams(t.positionSide) }, { rules, markPrice: t.entryPrice, openAlgoOrders });
+    if (r.ok && r.order) { ids[field] = r.order.orderId; openAlgoOrders++; }
+    else await appendLog(env, url, { type: 'vibe_order_error', where: 'protection', symbol: t.symbol, orderType: type, stopPrice: price, ...r.body });
+  }
+  return ids;
+}
+
+// Cancel whatever protection is still resting; already filled, expired or unknown orders are ignored
+async function cancelProtection(aster: Pick<AsterClient, 'cancelOrder'>, t: OpenTrade) {
+  for (const orderId of [t.slOrderId, t.tpOrderId]) {
+    if (!orderId) continue;
+    await aster.cancelOrder({ symbol: t.symbol, orderId }).catch(() => null);
+  }
+}
+
+// If a protective order filled since the last tick, cancel its sibling and return the fill
+async function filledProtection(aster: Pick<AsterClient, 'queryOrder' | 'cancelOrder'>, t: OpenTrade): Promise<{ order: AsterOrder; reason: string } | null> {
+  const legs: Array<[number | undefined, string]> = [[t.slOrderId, 'Stop-loss order filled'], [t.tpOrderId, 'Take-profit order filled']];
+  for (const [orderId, reason] of legs) {
+    if (!orderId) continue;
+    const o = await aster.queryOrder({ symbol: t.symbol, orderId }).catch(() => null);
+    if (o && o.status === 'FILLED' && Number(o.executedQty) > 0) {
+      await cancelProtection(aster, t);
+      return { order: o, reason };
+    }
+  }
+  return null;
+}
+
+// Tag a tracked trade with why it is being closed; the user stream books the closing fill with it.
+// Re-reads the map so a trade the stream just booked is not written back.
+async function markClosing(env: Env, url: URL, key: string, reason: string) {
+  const open = await getOpenTrades(env, url);
+  if (!open[key]) return;
+  open[key] = { ...open[key], closeReason: reason };
+  await setOpenTrades(env, url, open);
+}
+
+// ---------- Trailing stops ----------
+// Trades opened under a `stops` policy carry StopRules, and the tick ratchets their stopLoss: a
+// trail behind the price and a move to the entry at breakEvenR. The stop only ever tightens. A
+// resting STOP_MARKET is replaced by placing the new one before cancelling the old, and every move
+// is appended to stopHistory, which the closed trade keeps.
+type StopPolicy = {
+  trail: 'none' | 'atr' | 'percent';
+  atrMultiple: number;   // trail distance for 'atr', in atr14 multiples
+  pct: number;           // trail distance for 'percent'
+  breakEvenR: number;    // profit in multiples of the initial risk that moves the stop to entry; 0 is off
+};
+
+const DEFAULT_STOPS: StopPolicy = { trail: 'none', atrMultiple: 3, pct: 1, breakEvenR: 0 };
+const MIN_STOP_STEP_PCT = 0.05; // smaller moves are not worth replacing the exchange order
+
+function stopPolicy(input: any, base: StopPolicy = DEFAULT_STOPS): StopPolicy {
+  return {
+    trail: ['none', 'atr', 'percent'].includes(input?.trail) ? input.trail : base.trail,
+    atrMultiple: Math.max(0.1, Number(input?.atrMultiple ?? base.atrMultiple) || base.atrMultiple),
+    pct: Math.max(0.05, Math.min(50, Number(input?.pct ?? base.pct) || base.pct)),
+    breakEvenR: Math.max(0, Number(input?.breakEvenR ?? base.breakEvenR) || 0)
+  };
+}
+
+// The rules a new trade is opened with, or undefined when the policy keeps stops fixed
+function stopRulesFor(policy: StopPolicy): StopRules | undefined {
+  const rules: StopRules = {};
+  if (policy.trail !== 'none') rules.trail = { mode: policy.trail, distance: policy.trail === 'atr' ? policy.atrMultiple : policy.pct };
+  if (policy.breakEvenR > 0) rules.breakEvenR = policy.breakEvenR;
+  return rules.trail || rules.breakEvenR ? rules : undefined;
+}
+
+// The tightest stop the rules allow at `price`, when it beats the current one by a worthwhile step
+function nextStop(t: OpenTrade, price: number, atr: number | null): { stopLoss: number; reason: 'trail' | 'break_even' } | null {
+  const rules = t.stopRules;
+  if (!rules || typeof t.stopLoss !== 'number' || !(price > 0)) return null;
+  const dir = t.side === 'LONG' ? 1 : -1;
+  const initialRisk = (t.entryPrice - (t.stopHistory?.[0]?.stopLoss ?? t.stopLoss)) * dir;
+  const candidates: Array<{ stopLoss: number; reason: 'trail' | 'break_even' }> = [];
+  if (rules.trail?.mode === 'atr' && typeof atr === 'number' && atr > 0) candidates.push({ stopLoss: price - dir * rules.trail.distance * atr, reason: 'trail' });
+  if (rules.trail?.mode === 'percent') candidates.push({ stopLoss: price * (1 - dir * rules.trail.distance / 100), reason: 'trail' });
+  if (rules.breakEvenR && initialRisk > 0 && (price - t.entryPrice) * dir >= rules.breakEvenR * initialRisk) candidates.push({ stopLoss: t.entryPrice, reason: 'break_even' });
+  let best: { stopLoss: number; reason: 'trail' | 'break_even' } | null = null;
+  for (const c of candidates) {
+    // Tighter than the current stop, still on the losing side of the price
+    if ((c.stopLoss - t.stopLoss) * dir <= 0 || (price - c.stopLoss) * dir <= 0) continue;
+    if (!best || (c.stopLoss - best.stopLoss) * dir > 0) best = c;
+  }
+  return best && Math.abs(best.stopLoss - t.stopLoss) >= price * MIN_STOP_STEP_PCT / 100 ? best : null;
+}
+
+// Move the trade's stop and its resting STOP_MARKET. Returns the fields to write back, or null
+// when the replacement order was refused and the old stop stays in force.
+async function moveStop(env: Env, url: URL, aster: Pick<AsterClient, 'newOrder' | 'queryOrder' | 'openOrders' | 'cancelOrder'>, tickId: string, t: OpenTrade, move: { stopLoss: number; reason: 'trail' | 'break_even' }, rules: SymbolRules | null): Promise<Pick<OpenTrade, 'stopLoss' | 'slOrderId' | 'stopHistory'> | null> {
+  let slOrderId = t.slOrderId;
+  if (t.slOrderId) {
+    const stopPrice = rules ? roundPrice(rules, move.stopLoss) : move.stopLoss;
+    const openAlgoOrders = (await aster.openOrders(t.symbol).catch(() => [])).filter(o => isAlgoOrderType(o.type)).length;
+    const r = await sendOrder(env, url, aster, tickId, t.side === 'LONG' ? 'tsl' : 'tss', { symbol: t.symbol, side: t.side === 'LONG' ? 'SELL' : 'BUY', type: 'STOP_MARKET', stopPrice, quantity: t.qty, ...reduceParams(t.positionSide) }, { rules, markPrice: t.entryPrice, openAlgoOrders });
+    if (!r.ok || !r.order) {
+      await appendLog(env, url, { type: 'vibe_order_error', where: 'trailing_stop', symbol: t.symbol, stopPrice, ...r.body });
+      return null;
+    }
+    await aster.cancelOrder({ symbol: t.symbol, orderId: t.slOrderId }).catch(() => null);
+    slOrderId = r.order.orderId;
+  }
+  const history = t.stopHistory?.length ? t.stopHistory : [{ at: t.openedAt, stopLoss: t.stopLoss!, reason: 'initial' as const }];
+  await appendLog(env, url, { type: 'vibe_stop_moved', symbol: t.symbol, side: t.side, from: t.stopLoss, to: move.stopLoss, reason: move.reason, slOrderId });
+  return { stopLoss: move.stopLoss, slOrderId, stopHistory: [...history, { at: Date.now(), stopLoss: move.stopLoss, reason: move.reason }] };
+}
+
+// ---------- Scale-out ladder ----------
+// With scaleOut levels a trade takes profit in steps: at r × its initial risk, closePct of what
+// is still open goes out as a reduce-only market order, and the resting protection is resized to
+// the rest. A 100% level becomes the trade's takeProfit, closed by the usual take-profit path.
+// Every leg is booked as its own closed trade carrying the position's tradeId as parentId.
+type ScaleOutPolicy = {
+  levels: Array<{ r: number; closePct: number }>;
+};
+
+const DEFAULT_SCALE_OUT: ScaleOutPolicy = { levels: [] };
+
+function scaleOutPolicy(input: any, base: ScaleOutPolicy = DEFAULT_SCALE_OUT): ScaleOutPolicy {
+  const source: any[] = Array.isArray(input?.levels) ? input.levels : base.levels || [];
+  const levels = source
+    .map(l => ({ r: Number(l?.r), closePct: Math.min(100, Number(l?.closePct)) }))
+    .filter(l => l.r > 0 && l.closePct > 0)
+    .sort((a, b) => a.r - b.r)
+    .slice(0, 5);
+  // Nothing is left after a 100% level
+  const full = levels.findIndex(l => l.closePct >= 100);
+  return { levels: full >= 0 ? levels.slice(0, full + 1) : levels };
+}
+
+// Ladder for an entry at `entryPrice` with `stopLoss`; empty without levels or a stop to measure R by
+function scaleOutPlan(policy: ScaleOutPolicy, side: 'LONG' | 'SHORT', entryPrice: number, stopLoss: number | undefined): Pick<OpenTrade, 'targets' | 'takeProfit'> {
+  const dir = side === 'LONG' ? 1 : -1;
+  const risk = typeof stopLoss === 'number' ? (entryPrice - stopLoss) * dir : 0;
+  if (!policy.levels.length || !(risk > 0)) return {};
+  const at = (r: number) => entryPrice + dir * r * risk;
+  const last = policy.levels[policy.levels.length - 1];
+  return {
+    targets: policy.levels.filter(l => l.closePct < 100).map(l => ({ r: l.r, price: at(l.r), closePct: l.closePct })),
+    ...(last.closePct >= 100 ? { takeProfit: at(last.r) } : {})
+  };
+}
+
+// Close the share of every level the price has reached. Without the user stream each leg is
+// booked here; with it the stream books the fills and keeps qty. Returns the fields to write
+// back, or null when no level was reached.
+async function scaleOut(env: Env, url: URL, aster: AsterClient, tickId: string, t: OpenTrade, price: number, rules: SymbolRules | null, streamLive: boolean): Promise<Partial<OpenTrade> | null> {
+  const dir = t.side === 'LONG' ? 1 : -1;
+  const side = dir > 0 ? 'SELL' : 'BUY';
+  const targets = (t.targets || []).map(l => ({ ...l }));
+  let qty = t.qty;
+  let tag = '';
+  for (const [i, level] of targets.entries()) {
+    if (level.done || (price - level.price) * dir < 0) continue;
+    level.done = true;
+    tag = `p${i + 1}`;
+    const want = rules ? roundQty(rules, (qty * level.closePct) / 100, true) : (qty * level.closePct) / 100;
+    // A share under one lot, or all of what is left, is left to the stop and the take-profit
+    if (!(want > 0) || want >= qty || (rules && want < rules.marketMinQty)) {
+      await appendLog(env, url, { type: 'vibe_scale_out', event: 'skipped', symbol: t.symbol, side: t.side, level: i + 1, qty: want, openQty: qty });
+      continue;
+    }
+    const reason = `Take-profit level ${i + 1}`;
+    const r = await sendOrder(env, url, aster.critical, tickId, tag, { symbol: t.symbol, side, type: 'MARKET', quantity: want, ...reduceParams(t.positionSide) }, { rules, markPrice: price });
+    await appendLog(env, url, { type: 'vibe_order', status: r.status, ok: r.ok, symbol: t.symbol, side, qty: want, notional: want * price, reason, body: r.body });
+    if (!r.ok || !r.order) continue;
+    level.orderId = r.order.orderId;
+    const filled = Number(r.order.executedQty) || want;
+    const exitPrice = Number(r.order.avgPrice) || price;
+    if (!streamLive) {
+      const now = Date.now();
+      await appendClosedTrade(env, url, {
+        symbol: t.symbol,
+        side: t.side,
+        qty: filled,
+        entryPrice: t.entryPrice,
+        exitPrice,
+        notionalEntry: t.entryPrice * filled,
+        notionalExit: exitPrice * filled,
+        openedAt: t.openedAt,
+        closedAt: now,
+        holdingMs: Math.max(0, now - t.openedAt),
+        pnlUsd: (exitPrice - t.entryPrice) * dir * filled,
+        provider: t.provider,
+        model: t.model,
+        thesis: t.thesis,
+        exitReason: reason,
+        exitOrderId: r.order.orderId,
+        parentId: t.tradeId,
+        leg: i + 1,
+        ...(await bookFromFills(env, url, aster, { ...t, qty: filled }, [r.order.orderId]))
+      });
+    }
+    qty = Number((qty - filled).toFixed(8));
+    await appendLog(env, url, { type: 'vibe_scale_out', event: 'filled', symbol: t.symbol, side: t.side, level: i + 1, r: level.r, price: level.price, qty: filled, exitPrice, openQty: qty });
+  }
+  if (!tag) return null;
+  // Resize the exchange-side protection to the quantity still open
+  let protection: Pick<OpenTrade, 'slOrderId' | 'tpOrderId'> = {};
+  if (qty !== t.qty && (t.slOrderId || t.tpOrderId)) {
+    await cancelProtection(aster.critical, t);
+    protection = { slOrderId: undefined, tpOrderId: undefined, ...(await placeProtection(env, url, aster.critical, tickId, { ...t, qty }, rules, tag)) };
+  }
+  return { targets, ...(streamLive ? {} : { qty, notionalEntry: t.entryPrice * qty }), ...protection };
+}
+
+// ---------- Dead-man's switch ----------
+// Every healthy tick renews the exchange's countdownCancelAll on each symbol the worker has orders
+// on. If ticks stop, or keep failing in vibeTick's catch, the countdown runs out and the exchange
+// cancels the symbol's open orders, protection included. The next tick sees the missed deadline.
+type HeartbeatState = {
+  symbols: Record<string, { armedAt: number; countdownMs: number }>;
+  outages: Array<{ symbol: string; armedAt: number; firedAt: number; detectedAt: number }>;
+};
+const HEARTBEAT_KEY = '/vibe_heartbeat.json';
+const HEARTBEAT_OUTAGES_CAP = 100;
+const DEFAULT_CANCEL_COUNTDOWN_SEC = 180;
+const MIN_CANCEL_COUNTDOWN_SEC = 90;   // ticks come once a minute; shorter would fire between healthy ticks
+const HEARTBEAT_MAX_FAILED_TICKS = 3;  // consecutive failed ticks before the countdown is left to run out
+
+function cancelCountdownMs(cfg: VibeConfig): number {
+  const sec = Number(cfg.cancelCountdownSec ?? DEFAULT_CANCEL_COUNTDOWN_SEC) || 0;
+  return sec > 0 ? Math.max(MIN_CANCEL_COUNTDOWN_SEC, sec) * 1000 : 0;
+}
+
+// Record countdowns that ran out since the last renewal, then arm `symbols` (none when ms is 0).
+// With `exclusive` every other armed symbol is disarmed. Returns the symbols whose countdown fired.
+async function renewHeartbeat(env: Env, url: URL, aster: Pick<AsterClient, 'countdownCancelAll'>, ms: number, symbols: string[], exclusive: boolean): Promise<string[]> {
+  const hb = await kvGetJson<HeartbeatState>(env, url, HEARTBEAT_KEY, { symbols: {}, outages: [] });
+  const now = Date.now();
+  const fired: string[] = [];
+  for (const [sym, h] of Object.entries(hb.symbols)) {
+    if (now <= h.armedAt + h.countdownMs) continue;
+    fired.push(sym);
+    delete hb.symbols[sym];
+    hb.outages.push({ symbol: sym, armedAt: h.armedAt, firedAt: h.armedAt + h.countdownMs, detectedAt: now });
+    await appendLog(env, url, { type: 'vibe_heartbeat', event: 'fired', symbol: sym, armedAt: h.armedAt, firedAt: h.armedAt + h.countdownMs, silentMs: now - h.armedAt });
+  }
+  if (hb.outages.length > HEARTBEAT_OUTAGES_CAP) hb.outages.splice(0, hb.outages.length - HEARTBEAT_OUTAGES_CAP);
+  const arm = new Set(ms > 0 ? symbols : []);
+  for (const sym of arm) {
+    try {
+      await aster.countdownCancelAll(sym, ms);
+      hb.symbols[sym] = { armedAt: Date.now(), countdownMs: ms };
+    } catch (e: any) {
+      await appendLog(env, url, { type: 'vibe_error', where: 'heartbeat', symbol: sym, ...asterErrorInfo(e) });
+    }
+  }
+  if (exclusive) {
+    for (const sym of Object.keys(hb.symbols)) {
+      if (arm.has(sym)) continue;
+      try {
+        await aster.countdownCancelAll(sym, 0);
+        delete hb.symbols[sym];
+      } catch (e: any) {
+        await appendLog(env, url, { type: 'vibe_error', where: 'heartbeat', symbol: sym, ...asterErrorInfo(e) });
+      }
+    }
+  }
+  await kvPutJson(env, url, HEARTBEAT_KEY, hb);
+  return fired;
+}
+
+// ---------- Funding ----------
+// FUNDING_FEE income is pulled once a funding time has passed and credited to the trade that held
+// the position then: the open trade, or a closed trade whose holding window covers the payment.
+type FundingCursor = {
+  lastTime: number;     // newest income row applied
+  nextCheckAt: number;  // next funding time of the held symbols, plus settle time
+};
+const FUNDING_KEY = '/vibe_funding.json';
+const FUNDING_RECHECK_MS = 60 * 60 * 1000;  // when no funding time is known for a held symbol
+const FUNDING_SETTLE_MS = 60 * 1000;        // income rows land shortly after the funding time
+
+async function syncFunding(env: Env, url: URL, aster: Pick<AsterClient, 'income'>, funding: Record<string, { rate: number; nextFundingTime: number }>) {
+  const open = await getOpenTrades(env, url);
+  const held = Object.entries(open);
+  const cursor = await kvGetJson<FundingCursor | null>(env, url, FUNDING_KEY, null);
+  const now = Date.now();
+  if (cursor ? now < cursor.nextCheckAt : !held.length) return;
+  const startTime = cursor ? cursor.lastTime + 1 : Math.min(...held.map(([, t]) => t.openedAt));
+  const rows = (await aster.income({ incomeType: 'FUNDING_FEE', startTime, limit: 1000 })).sort((a, b) => a.time - b.time);
+  let lastTime = startTime - 1;
+  let closed: ClosedTrade[] | null = null;
+  const credited: Record<string, number> = {};
+  let closedCredits = 0;
+  for (const row of rows) {
+    lastTime = Math.max(lastTime, row.time);
+    const amount = Number(row.income);
+    if (!amount) continue;
+    const legs = held.filter(([, t]) => t.symbol === row.symbol && t.openedAt <= row.time);
+    if (legs.length) {
+      // The exchange pays one amount per symbol; hedge legs share it by their signed notional
+      // (longs pay positive rates), falling back to an even split when the legs cancel out
+      const weights = legs.map(([, t]) => (t.side === 'LONG' ? -1 : 1) * t.notionalEntry);
+      const total = weights.reduce((a, w) => a + w, 0);
+      legs.forEach(([key], i) => { credited[key] = (credited[key] || 0) + (total ? amount * weights[i] / total : amount / legs.length); });
+      continue;
+    }
+    closed ||= await kvGetJson<ClosedTrade[]>(env, url, '/vibe_trades.json', []);
+    const c = closed.slice().reverse().find(x => x.symbol === row.symbol && x.openedAt <= row.time && row.time <= x.closedAt);
+    if (!c) continue;
+    c.fundingUsd = (c.fundingUsd || 0) + amount;
+    c.netPnlUsd = netPnl(c);
+    closedCredits++;
+  }
+  if (Object.keys(credited).length) {
+    // Re-read so fills the stream booked meanwhile are kept; a trade replaced since is skipped
+    const latest = await getOpenTrades(env, url);
+    for (const [key, amount] of Object.entries(credited)) {
+      if (latest[key]?.openedAt !== open[key].openedAt) continue;
+      latest[key] = { ...latest[key], fundingUsd: (latest[key].fundingUsd || 0) + amount };
+    }
+    await setOpenTrades(env, url, latest);
+  }
+  if (closed && closedCredits) await kvPutJson(env, url, '/vibe_trades.json', closed);
+  if (rows.length) await appendLog(env, url, { type: 'vibe_funding', rows: rows.length, openTrades: credited, closedTrades: closedCredits });
+  // A full page may have more rows behind it; otherwise wait for the next funding time
+  const next = Math.min(now + FUNDING_RECHECK_MS, ...held.map(([, t]) => funding[t.symbol]?.nextFundingTime || Infinity));
+  await kvPutJson(env, url, FUNDING_KEY, { lastTime: Math.max(lastTime, cursor?.lastTime ?? 0), nextCheckAt: rows.length >= 1000 ? now : next + FUNDING_SETTLE_MS });
+}
+
+// ---------- Fill-based booking ----------
+// Closed-trade numbers from the exchange's own executions: the userTrades rows of the orders that
+// closed the trade and of our entry orders on its leg, with realizedPnl and commission as booked.
+type FillBooking = Pick<ClosedTrade, 'qty' | 'entryPrice' | 'exitPrice' | 'notionalEntry' | 'notionalExit' | 'closedAt' | 'holdingMs' | 'pnlUsd' | 'grossPnlUsd' | 'feesUsd' | 'fillIds' | 'source'>;
+const ENTRY_PURPOSE = /^(t\d+)?(open|o\d+|om)$/;
+const ENTRY_LOOKBACK_MS = 2 * 60 * 1000; // entry orders can be sent shortly before openedAt is stamped
+
+// Commission paid in a USD stablecoin; other assets (fee discounts) are not priced here
+function fillFeeUsd(f: Pick<AsterUserTrade, 'commission' | 'commissionAsset'>): number {
+  return /^USD/.test(f.commissionAsset) ? Number(f.commission) || 0 : 0;
+}
+
+// Null when none of the exit orders' fills are listed yet; the caller keeps its estimate then
+async function bookFromFills(env: Env, url: URL, aster: Pick<AsterClient, 'userTrades'>, t: OpenTrade, exitOrderIds: Array<number | undefined>): Promise<FillBooking | null> {
+  const exits = new Set(exitOrderIds.filter((id): id is number => !!id));
+  if (!exits.size) return null;
+  const since = t.openedAt - ENTRY_LOOKBACK_MS;
+  const rows = await aster.userTrades({ symbol: t.symbol, startTime: since, limit: 1000 }).catch(() => null);
+  if (!Array.isArray(rows)) return null;
+  const leg = rows.filter(f => !t.positionSide || f.positionSide === t.positionSide).sort((a, b) => a.time - b.time || a.id - b.id);
+  const exitSide = t.side === 'LONG' ? 'SELL' : 'BUY';
+  // Exit fills up to the trade's quantity; past it, a netting entry order opens the next trade
+  let qty = 0, notionalExit = 0, gross = 0, fees = 0, closedAt = 0;
+  const fillIds: number[] = [];
+  for (const f of leg) {
+    if (!exits.has(f.orderId) || f.side !== exitSide) continue;
+    const q = Math.min(Number(f.qty), t.qty - qty);
+    if (!(q > 1e-9)) break;
+    const share = q / Number(f.qty);
+    qty += q;
+    notionalExit += q * Number(f.price);
+    gross += (Number(f.realizedPnl) || 0) * share;
+    fees += fillFeeUsd(f) * share;
+    closedAt = f.time;
+    fillIds.push(f.id);
+  }
+  if (!(qty > 0)) return null;
+  // Entry commission from our entry orders' fills, prorated to the quantity closed
+  const intents = Object.values(await getOrderIntents(env, url));
+  const entryOrders = new Set([t.entryOrderId, ...intents.filter(i => i.symbol === t.symbol && i.orderId && ENTRY_PURPOSE.test(i.purpose) && i.createdAt >= since).map(i => i.orderId)]);
+  const entries = leg.filter(f => entryOrders.has(f.orderId) && f.side !== exitSide && f.time <= closedAt);
+  const entryQty = entries.reduce((a, f) => a + Number(f.qty), 0);
+  const entryNotional = entries.reduce((a, f) => a + Number(f.qty) * Number(f.price), 0);
+  const entryFees = entries.reduce((a, f) => a + fillFeeUsd(f), 0);
+  const entryPrice = entryQty > 0 ? entryNotional / entryQty : t.entryPrice;
+  return {
+    qty,
+    entryPrice,
+    exitPrice: notionalExit / qty,
+    notionalEntry: entryPrice * qty,
+    notionalExit,
+    closedAt,
+    holdingMs: Math.max(0, closedAt - t.openedAt),
+    pnlUsd: gross,
+    grossPnlUsd: gross,
+    feesUsd: fees + (entryQty > 0 ? entryFees * Math.min(1, qty / entryQty) : 0),
+    fillIds: [...entries.map(f => f.id), ...fillIds],
+    source: 'fills'
+  };
+}
+
+// ---------- Daily risk session ----------
+// maxDailyLossUsd is measured over a trading day that starts at `resetTime` in `timeZone` (UTC or an
+// IANA zone). The session loss is the net PnL of trades closed since the reset plus the account's
+// unrealized PnL. Reaching the limit halts the session until the next reset: entries are blocked,
+// running TWAP schedules are cancelled and, with `flatten`, open trades are closed.
+type SessionPolicy = {
+  resetTime: string; // HH:MM wall-clock time the trading day rolls over
+  timeZone: string;  // 'UTC' or an IANA zone such as 'America/New_York'
+  flatten: boolean;  // close open trades when the limit is hit
+};
+
+type RiskSession = {
+  startAt: number;
+  resetAt: number;        // start of the next session
+  limitUsd: number;
+  realizedUsd: number;    // net PnL of trades closed this session
+  unrealizedUsd: number;  // account unrealized PnL at the last update
+  lossUsd: number;        // loss below zero of realized + unrealized
+  halted: boolean;
+  haltedAt?: number;
+  updatedAt: number;
+};
+
+const DEFAULT_SESSION: SessionPolicy = { resetTime: '00:00', timeZone: 'UTC', flatten: false };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function validTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function sessionPolicy(input: any, base: SessionPolicy = DEFAULT_SESSION): SessionPolicy {
+  return {
+    resetTime: typeof input?.resetTime === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(input.resetTime) ? input.resetTime : base.resetTime || DEFAULT_SESSION.resetTime,
+    timeZone: typeof input?.timeZone === 'string' && validTimeZone(input.timeZone) ? input.timeZone : base.timeZone || DEFAULT_SESSION.timeZone,
+    flatten: typeof input?.flatten === 'boolean' ? input.flatten : !!base.flatten
+  };
+}
+
+// How far the zone's wall clock is ahead of UTC at `at`
+function zoneOffsetMs(timeZone: string, at: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric' }).formatToParts(new Date(at));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - Math.floor(at / 1000) * 1000;
+}
+
+// Start of the session holding `now` and of the one after it, each at the offset in force then
+function sessionBounds(policy: SessionPolicy, now: number): { startAt: number; resetAt: number } {
+  const [h, m] = policy.resetTime.split(':').map(Number);
+  const offset = zoneOffsetMs(policy.timeZone, now);
+  const local = now + offset;
+  let localStart = Math.floor(local / DAY_MS) * DAY_MS + (h * 60 + m) * 60_000;
+  if (localStart > local) localStart -= DAY_MS;
+  const toUtc = (wall: number) => wall - zoneOffsetMs(policy.timeZone, wall - offset);
+  return { startAt: toUtc(localStart), resetAt: toUtc(localStart + DAY_MS) };
+}
+
+// Roll the session over at its reset and re-measure the loss. A halt holds for the rest of the
+// session unless maxDailyLossUsd is changed; 0 turns the limit off. Without an account reading
+// (`unrealizedUsd` null) the last unrealized figure is kept.
+async function updateRiskSession(env: Env, url: URL, cfg: VibeConfig, prev: RiskSession | undefined, unrealizedUsd: number | null): Promise<RiskSession> {
+  const now = Date.now();
+  const policy = sessionPolicy(cfg.session);
+  const { startAt, resetAt } = sessionBounds(policy, now);
+  const limitUsd = Math.max(0, Number(cfg.maxDailyLossUsd) || 0);
+  const same = !!prev && prev.startAt === startAt;
+  if (prev?.halted && !same) {
+    await appendLog(env, url, { type: 'vibe_risk_session', event: 'reset', startAt, resetAt, previousLossUsd: prev.lossUsd });
+  }
+  const closed = await kvGetJson<ClosedTrade[]>(env, url, '/vibe_trades.json', []);
+  const realizedUsd = closed.filter(t => Number(t?.closedAt || 0) >= startAt).reduce((sum, t) => sum + (t.netPnlUsd ?? netPnl(t)), 0);
+  const unrl = unrealizedUsd ?? (same ? prev!.unrealizedUsd : 0);
+  const lossUsd = Math.max(0, -(realizedUsd + unrl));
+  const held = same && prev!.halted && prev!.limitUsd === limitUsd;
+  const halted = limitUsd > 0 && (held || lossUsd >= limitUsd);
+  const session: RiskSession = {
+    startAt,
+    resetAt,
+    limitUsd,
+    realizedUsd: Math.round(realizedUsd * 100) / 100,
+    unrealizedUsd: Math.round(unrl * 100) / 100,
+    lossUsd: Math.round(lossUsd * 100) / 100,
+    halted,
+    haltedAt: halted ? (held ? prev!.haltedAt : now) : undefined,
+    updatedAt: now
+  };
+  if (halted && !held) {
+    await appendLog(env, url, { type: 'vibe_risk_session', event: 'halted', lossUsd: session.lossUsd, limitUsd, realizedUsd: session.realizedUsd, unrealizedUsd: session.unrealizedUsd, resetAt, flatten: policy.flatten });
+  }
+  return session;
+}
+
+// ---------- Drawdown throttle ----------
+// Drawdown is measured from the peak of the sampled equity curve (/vibe_equity.json, about 28 days)
+// to the current equity. Each tier the drawdown reaches scales new entries by its `sizeMult`; a
+// tier with sizeMult 0 blocks them. Risk steps down as soon as a tier is reached and back up one
+// tier at a time once the drawdown is `recoverPct` points above the tier's threshold.
+type DrawdownTier = { drawdownPct: number; sizeMult: number };
+
+type DrawdownPolicy = {
+  tiers: DrawdownTier[]; // by drawdownPct, shallowest first
+  recoverPct: number;    // hysteresis before stepping back up
+};
+
+type DrawdownState = {
+  peakUsd: number;
+  peakAt: number;
+  equityUsd: number;
+  drawdownPct: number;
+  tier: number;          // tiers reached, 0 at full size
+  sizeMult: number;
+  updatedAt: number;
+};
+
+const DEFAULT_DRAWDOWN: DrawdownPolicy = {
+  tiers: [
+    { drawdownPct: 5, sizeMult: 0.5 },
+    { drawdownPct: 10, sizeMult: 0 }
+  ],
+  recoverPct: 1
+};
+
+function drawdownPolicy(input: any, base: DrawdownPolicy = DEFAULT_DRAWDOWN): DrawdownPolicy {
+  const tiers = Array.isArray(input?.tiers)
+    ? input.tiers
+        .map((t: any) => ({ drawdownPct: Number(t?.drawdownPct), sizeMult: Number(t?.sizeMult) }))
+        .filter((t: DrawdownTier) => t.drawdownPct > 0 && t.drawdownPct < 100 && t.sizeMult >= 0 && t.sizeMult <= 1)
+        .sort((a: DrawdownTier, b: DrawdownTier) => a.drawdownPct - b.drawdownPct)
+    : base.tiers || DEFAULT_DRAWDOWN.tiers;
+  const recover = Number(input?.recoverPct);
+  return { tiers, recoverPct: Number.isFinite(recover) && recover >= 0 ? recover : base.recoverPct ?? DEFAULT_DRAWDOWN.recoverPct };
+}
+
+// Re-measure the drawdown with the tick's equity reading and move between tiers. Without a reading
+// the last state is kept.
+async function updateDrawdown(env: Env, url: URL, cfg: VibeConfig, prev: DrawdownState | undefined, equityUsd: number): Promise<DrawdownState | undefined> {
+  if (!(equityUsd > 0)) return prev;
+  const now = Date.now();
+  const { tiers, recoverPct } = drawdownPolicy(cfg.drawdown);
+  const series = await kvGetJson<Array<{ at: number; equityUsd: number }>>(env, url, '/vibe_equity.json', []);
+  let peakUsd = equityUsd;
+  let peakAt = now;
+  for (const p of series) {
+    const v = Number(p?.equityUsd);
+    if (Number.isFinite(v) && v > peakUsd) { peakUsd = v; peakAt = Number(p.at) || now; }
+  }
+  const drawdownPct = ((peakUsd - equityUsd) / peakUsd) * 100;
+  // Down to the deepest tier reached; up only past the recovery margin of the tier above
+  const reached = tiers.filter(t => drawdownPct >= t.drawdownPct).length;
+  let tier = Math.min(prev?.tier ?? 0, tiers.length);
+  if (reached > tier) tier = reached;
+  while (tier > reached && drawdownPct <= tiers[tier - 1].drawdownPct - recoverPct) tier--;
+  const state: DrawdownState = {
+    peakUsd: Math.round(peakUsd * 100) / 100,
+    peakAt,
+    equityUsd: Math.round(equityUsd * 100) / 100,
+    drawdownPct: Math.round(drawdownPct * 100) / 100,
+    tier,
+    sizeMult: tier > 0 ? tiers[tier - 1].sizeMult : 1,
+    updatedAt: now
+  };
+  if (tier !== (prev?.tier ?? 0)) {
+    await appendLog(env, url, { type: 'vibe_drawdown', event: tier > (prev?.tier ?? 0) ? 'stepped_down' : 'stepped_up', tier, sizeMult: state.sizeMult, drawdownPct: state.drawdownPct, peakUsd: state.peakUsd, equityUsd: state.equityUsd });
+  }
+  return state;
+}
+
+// ---------- Position mode ----------
+// Account-wide one-way vs hedge (dualSidePosition). The exchange refuses the switch while any
+// position or open order exists, so the mode in effect can lag the config until the book is flat.
+type PositionMode = {
+  want: boolean;    // cfg.hedgeMode when checked
+  dual: boolean;    // mode in effect on the exchange
+  checkedAt: number;
+  error?: string;   // the switch was rejected; retried after SETTINGS_RETRY_MS
+};
+
+async function ensurePositionMode(env: Env, url: URL, aster: AsterClient, cfg: VibeConfig): Promise<boolean> {
+  const want = !!cfg.hedgeMode;
+  const cached = await kvGetJson<PositionMode | null>(env, url, '/vibe_position_mode.json', null);
+  if (cached && cached.want === want && (!cached.error || Date.now() - cached.checkedAt < SETTINGS_RETRY_MS)) return cached.dual;
+  let dual = cached?.dual ?? false;
+  try {
+    dual = (await aster.positionMode()).dualSidePosition;
+    if (dual !== want) {
+      await aster.changePositionMode(want).catch((e) => {
+        if (!(e instanceof AsterApiError && e.kind === 'no_change')) throw e;
+      });
+      dual = want;
+      await appendLog(env, url, { type: 'vibe_position_mode', dualSidePosition: dual });
+    }
+    await kvPutJson(env, url, '/vibe_position_mode.json', { want, dual, checkedAt: Date.now() });
+  } catch (e: any) {
+    const info = asterErrorInfo(e);
+    // -4067/-4068: open orders or positions block the switch; keep trading in the current mode
+    if (e instanceof AsterApiError && e.code !== null) {
+      await kvPutJson(env, url, '/vibe_position_mode.json', { want, dual, checkedAt: Date.now(), error: info.error });
+    }
+    await appendLog(env, url, { type: 'vibe_error', where: 'position_mode', dualSidePosition: dual, ...info });
+  }
+  return dual;
+}
+
+// ---------- Leverage and margin type ----------
+// What was applied on the exchange per symbol, so the endpoints are only hit when config changes
+type SymbolSettings = {
+  wantLeverage: number;  // cfg.leverageCap when applied
+  leverage: number;      // leverageCap clamped to the symbol's brackets
+  marginMode: 'cross' | 'isolated';
+  maxNotional: number;   // largest position notional the brackets allow at that leverage (0 = unknown)
+  appliedAt: number;
+  error?: string;        // the exchange rejected the change; the symbol is not traded
+  code?: number | null;
+};
+const SETTINGS_RETRY_MS = 30 * 60 * 1000;
+
+async function ensureSymbolSettings(env: Env, url: URL, aster: AsterClient, cfg: VibeConfig, sym: string): Promise<{ ok: true; leverage: number; maxNotional: number } | { ok: false; reason: string }> {
+  const cache = await kvGetJson<Record<string, SymbolSettings>>(env, url, '/vibe_symbol_settings.json', {});
+  const want = Math.max(1, Math.floor(Number(cfg.leverageCap) || 1));
+  const cached = cache[sym];
+  if (cached && cached.wantLeverage === want && cached.marginMode === cfg.marginMode) {
+    if (!cached.error) return { ok: true, leverage: cached.leverage, maxNotional: cached.maxNotional };
+    if (Date.now() - cached.appliedAt < SETTINGS_RETRY_MS) return { ok: false, reason: cached.error };
+  }
+  try {
+    const brackets = (await aster.leverageBracket(sym))?.brackets || [];
+    const maxLeverage = brackets.reduce((m, b) => Math.max(m, Number(b.initialLeverage) || 0), 0);
+    const leverage = maxLeverage > 0 ? Math.min(want, maxLeverage) : want;
+    const maxNotional = brackets.filter(b => Number(b.initialLeverage) >= leverage).reduce((m, b) => Math.max(m, Number(b.notionalCap) || 0), 0);
+    // Check before set: only call the change endpoints when the exchange differs
+    const pos = (await aster.positionRisk(sym)).find(p => p.symbol === sym && p.positionSide !== 'SHORT');
+    if (pos?.marginType !== cfg.marginMode) {
+      await aster.changeMarginType(sym, cfg.marginMode === 'isolated' ? 'ISOLATED' : 'CROSSED').catch((e) => {
+        if (!(e instanceof AsterApiError && e.kind === 'no_change')) throw e;
+      });
+    }
+    if (Number(pos?.leverage) !== leverage) await aster.changeLeverage(sym, leverage);
+    cache[sym] = { wantLeverage: want, leverage, marginMode: cfg.marginMode, maxNotional, appliedAt: Date.now() };
+    await kvPutJson(env, url, '/vibe_symbol_settings.json', cache);
+    await appendLog(env, url, { type: 'vibe_symbol_settings', symbol: sym, leverage, marginMode: cfg.marginMode, maxNotional, clamped: leverage < want });
+    return { ok: true, leverage, maxNotional };
+  } catch (e: any) {
+    const info = asterErrorInfo(e);
+    // Only an exchange rejection blocks the symbol; transient failures are retried next tick
+    if (e instanceof AsterApiError && e.code !== null) {
+      cache[sym] = { wantLeverage: want, leverage: 0, marginMode: cfg.marginMode, maxNotional: 0, appliedAt: Date.now(), error: info.error, code: info.code };
+      await kvPutJson(env, url, '/vibe_symbol_settings.json', cache);
+    }
+    await appendLog(env, url, { type: 'vibe_error', where: 'symbol_settings', symbol: sym, ...info });
+    return { ok: false, reason: info.error };
+  }
+}
+
 // ---------- Indicators ----------
 function sma(values: number[], period: number): number[] {
   const out: number[] = [];
@@ -227,27 +1657,6 @@ function rsi(values: number[], period = 14): number[] {
   return out;
 }
 
-async function asterFapiSignedPost(env: Env, path: string, params: Record<string, string | number>): Promise<Response> {
-  const base = (env.ASTER_API_BASE || '').trim().replace(/\/+$/, '');
-  const apiKey = env.ASTER_API_KEY;
-  const apiSecret = env.ASTER_API_SECRET;
-  if (!base || !apiKey || !apiSecret) return new Response('ASTER_API_BASE/API_KEY/API_SECRET missing', { status: 400 });
-  const ts = Date.now();
-  const recv = 5000;
-  const qp = new URLSearchParams();
-  for (const [k, v] of Object.entries(params)) qp.append(k, String(v));
-  qp.append('timestamp', String(ts));
-  qp.append('recvWindow', String(recv));
-  const sig = await hmacHex('SHA-256', apiSecret, qp.toString());
-  qp.append('signature', sig);
-  const url = `${base}${path}`;
-  return fetch(url, {
-    method: 'POST',
-    headers: { 'X-MBX-APIKEY': apiKey, 'content-type': 'application/x-www-form-urlencoded' },
-    body: qp.toString()
-  });
-}
-
 async function handleDebug(req: Request, env: Env) {
   const info: any = { ok: true };
   info.hasEnv = !!env.MEAP_KV;
@@ -366,6 +1775,84 @@ async function handleMessage(req: Request, env: Env) {
   return new Response(JSON.stringify(resp), { headers: cors({ 'Content-Type': 'application/json' }) });
 }
 
+// ---------- Plan validation ----------
+// The LLM's stop, target and hold time are checked against the decision price before the entry is
+// sized. The stop must sit on the losing side, minStopAtr to maxStopAtr × atr14 away, and the target
+// on the winning side at least minRewardRisk × the stop distance away. With onInvalid 'repair' a
+// failed check is fixed: a missing or wrong-side stop moves to the sizing atrMultiple, a distance is
+// clamped, a target is moved out to minRewardRisk. With 'reject' the entry is dropped. Hold time is
+// clamped to [minHoldMin, maxHoldMin] either way.
+type PlanPolicy = {
+  minStopAtr: number;
+  maxStopAtr: number;
+  minRewardRisk: number;
+  minHoldMin: number;
+  maxHoldMin: number;
+  onInvalid: 'repair' | 'reject';
+};
+
+const DEFAULT_PLAN: PlanPolicy = { minStopAtr: 0.5, maxStopAtr: 10, minRewardRisk: 1.2, minHoldMin: 15, maxHoldMin: 90, onInvalid: 'repair' };
+
+function planPolicy(input: any, base: PlanPolicy = DEFAULT_PLAN): PlanPolicy {
+  const num = (v: any, fallback: number, min: number) => Math.max(min, Number(v ?? fallback) || fallback);
+  const minStopAtr = num(input?.minStopAtr, base.minStopAtr, 0);
+  const minHoldMin = num(input?.minHoldMin, base.minHoldMin, 0);
+  return {
+    minStopAtr,
+    maxStopAtr: Math.max(minStopAtr, num(input?.maxStopAtr, base.maxStopAtr, 0)),
+    minRewardRisk: num(input?.minRewardRisk, base.minRewardRisk, 0),
+    minHoldMin,
+    maxHoldMin: Math.max(minHoldMin, num(input?.maxHoldMin, base.maxHoldMin, 0)),
+    onInvalid: input?.onInvalid === 'repair' || input?.onInvalid === 'reject' ? input.onInvalid : base.onInvalid || DEFAULT_PLAN.onInvalid
+  };
+}
+
+type TradePlan = { stopLoss?: number; takeProfit?: number; minHoldMs?: number };
+type PlanIssue = { check: 'price' | 'stop_side' | 'stop_distance' | 'target_side' | 'reward_risk'; detail: string };
+
+// Returns the plan to trade with, every failed check, and whether the entry must be dropped. Without
+// atr14 the distance check is skipped and a missing stop cannot be repaired.
+function validatePlan(policy: PlanPolicy, side: 'LONG' | 'SHORT', price: number, atr: number | null, repairAtr: number, plan: TradePlan): { plan: TradePlan; issues: PlanIssue[]; rejected: boolean } {
+  const issues: PlanIssue[] = [];
+  if (!(price > 0)) return { plan, issues: [{ check: 'price', detail: 'no price to check the plan against' }], rejected: true };
+  const dir = side === 'LONG' ? 1 : -1;
+  const hasAtr = typeof atr === 'number' && atr > 0;
+  let { stopLoss, takeProfit, minHoldMs } = plan;
+  let risk = typeof stopLoss === 'number' ? (price - stopLoss) * dir : NaN;
+  let repairable = true;
+  if (!(risk > 0)) {
+    issues.push({ check: 'stop_side', detail: typeof stopLoss === 'number' ? `stop ${stopLoss} is not ${dir > 0 ? 'below' : 'above'} price ${price}` : 'no stop-loss' });
+    if (hasAtr) {
+      risk = repairAtr * atr!;
+      stopLoss = price - dir * risk;
+    } else {
+      repairable = false;
+    }
+  } else if (hasAtr) {
+    const multiple = risk / atr!;
+    if (multiple < policy.minStopAtr || multiple > policy.maxStopAtr) {
+      issues.push({ check: 'stop_distance', detail: `stop is ${multiple.toFixed(2)} ATR away, outside ${policy.minStopAtr}-${policy.maxStopAtr}` });
+      risk = Math.max(policy.minStopAtr, Math.min(policy.maxStopAtr, multiple)) * atr!;
+      stopLoss = price - dir * risk;
+    }
+  }
+  if (repairable) {
+    const reward = typeof takeProfit === 'number' ? (takeProfit - price) * dir : NaN;
+    if (!(reward > 0)) {
+      issues.push({ check: 'target_side', detail: typeof takeProfit === 'number' ? `target ${takeProfit} is not ${dir > 0 ? 'above' : 'below'} price ${price}` : 'no take-profit' });
+      takeProfit = price + dir * risk * policy.minRewardRisk;
+    } else if (reward < risk * policy.minRewardRisk) {
+      issues.push({ check: 'reward_risk', detail: `reward-to-risk ${(reward / risk).toFixed(2)}:1 is below ${policy.minRewardRisk}:1` });
+      takeProfit = price + dir * risk * policy.minRewardRisk;
+    }
+  }
+  // A missing hold time starts at minHoldMin like a short one
+  const holdMin = typeof minHoldMs === 'number' && Number.isFinite(minHoldMs) ? minHoldMs / 60_000 : policy.minHoldMin;
+  minHoldMs = Math.max(policy.minHoldMin, Math.min(policy.maxHoldMin, holdMin)) * 60_000;
+  const rejected = !repairable || (policy.onInvalid === 'reject' && issues.length > 0);
+  return { plan: { stopLoss, takeProfit, minHoldMs }, issues, rejected };
+}
+
 // ---------------- VIBE TRADER (Aster + Qwen) ----------------
 type VibeConfig = {
   status: 'running' | 'stopped';
@@ -377,16 +1864,30 @@ type VibeConfig = {
   marginMode: 'cross' | 'isolated';
   model: string;
   maxLossPerTradeUsd?: number; // hard dollar stop per trade
+  hedgeMode?: boolean; // dualSidePosition: hold a LONG and a SHORT leg on the same symbol
+  execution?: ExecutionPolicy; // how entries are worked; market when unset
+  twap?: TwapPolicy; // when and how large entries are sliced across ticks
+  cancelCountdownSec?: number; // dead-man's switch on the exchange; 0 turns it off
+  session?: SessionPolicy; // trading day maxDailyLossUsd is measured over
+  exposure?: ExposurePolicy; // per-symbol notional caps under maxExposureUsd
+  sizing?: SizingPolicy; // how entry size follows the stop distance
+  plan?: PlanPolicy; // checks on the LLM's stop, target and hold time
+  stops?: StopPolicy; // trailing and break-even rules given to new trades
+  scaleOut?: ScaleOutPolicy; // partial take-profit levels in multiples of the initial risk
+  drawdown?: DrawdownPolicy; // entry size tiers by drawdown from the equity peak
 };
 
 type VibeRuntime = {
   lastTickAt?: number;
-  sessionLossUsd?: number;
+  sessionLossUsd?: number; // loss of the current risk session, mirrors session.lossUsd
+  session?: RiskSession;
+  drawdown?: DrawdownState; // drawdown tier new entries are sized under
   lastError?: string | null;
   lastProvider?: 'qwen' | undefined;
   lastModel?: string | undefined;
   lastOrderAt?: number | undefined;
   lastSignal?: 'LONG' | 'SHORT' | 'FLAT' | undefined;
+  failedTicks?: number; // consecutive ticks that ended in an error
 };
 
 const DEFAULT_VIBE_CONFIG: VibeConfig = {
@@ -398,82 +1899,27 @@ const DEFAULT_VIBE_CONFIG: VibeConfig = {
   leverageCap: 5,
   marginMode: 'cross',
   model: 'qwen2.5-32b-instruct',
-  maxLossPerTradeUsd: 200
+  maxLossPerTradeUsd: 200,
+  hedgeMode: false,
+  execution: DEFAULT_EXECUTION,
+  twap: DEFAULT_TWAP,
+  cancelCountdownSec: DEFAULT_CANCEL_COUNTDOWN_SEC,
+  session: DEFAULT_SESSION,
+  exposure: DEFAULT_EXPOSURE,
+  sizing: DEFAULT_SIZING,
+  plan: DEFAULT_PLAN,
+  stops: DEFAULT_STOPS,
+  scaleOut: DEFAULT_SCALE_OUT,
+  drawdown: DEFAULT_DRAWDOWN
 };
 
-async function kvGetJson<T>(env: Env, url: URL, key: string, fallback: T): Promise<T> {
-  const fullKey = new URL(key, url).toString();
-  const data = await env.MEAP_KV.get(fullKey, { type: 'json' });
-  return (data as T) ?? fallback;
-}
-
-async function kvPutJson(env: Env, url: URL, key: string, value: any): Promise<void> {
-  const fullKey = new URL(key, url).toString();
-  await env.MEAP_KV.put(fullKey, JSON.stringify(value));
-}
-
-async function appendLog(env: Env, url: URL, entry: any) {
-  const logs: any[] = await kvGetJson(env, url, '/vibe_logs.json', []);
-  logs.push({ at: Date.now(), ...entry });
-  if (logs.length > 500) logs.splice(0, logs.length - 500);
-  await kvPutJson(env, url, '/vibe_logs.json', logs);
-}
-
-// ----- Trades persistence for UI Completed Trades -----
-type OpenTrade = {
-  symbol: string;
-  side: 'LONG' | 'SHORT';
-  qty: number;
-  entryPrice: number;
-  notionalEntry: number;
-  openedAt: number;
-  provider?: string;
-  model?: string;
-  // thesis-driven fields
-  stopLoss?: number; // absolute price
-  takeProfit?: number; // absolute price
-  minHoldMs?: number; // minimum hold duration
-  thesis?: string; // human-readable thesis
-};
-
-type ClosedTrade = {
-  symbol: string;
-  side: 'LONG' | 'SHORT';
-  qty: number;
-  entryPrice: number;
-  exitPrice: number;
-  notionalEntry: number;
-  notionalExit: number;
-  openedAt: number;
-  closedAt: number;
-  holdingMs: number;
-  pnlUsd: number;
-  provider?: string;
-  model?: string;
-  thesis?: string;
-};
-
-async function getOpenTrades(env: Env, url: URL): Promise<Record<string, OpenTrade>> {
-  return (await kvGetJson<Record<string, OpenTrade>>(env, url, '/vibe_open_trades.json', {})) || {};
-}
-
-async function setOpenTrades(env: Env, url: URL, map: Record<string, OpenTrade>) {
-  await kvPutJson(env, url, '/vibe_open_trades.json', map);
-}
-
-async function appendClosedTrade(env: Env, url: URL, trade: ClosedTrade) {
-  const list = await kvGetJson<ClosedTrade[]>(env, url, '/vibe_trades.json', []);
-  list.push(trade);
-  // Keep last 2000 trades instead of 200 to preserve history (especially high-PnL trades)
-  if (list.length > 2000) list.splice(0, list.length - 2000);
-  await kvPutJson(env, url, '/vibe_trades.json', list);
-}
-
 async function handleVibeStatus(req: Request, env: Env) {
   const url = new URL(req.url);
   const cfg = await kvGetJson<VibeConfig>(env, url, '/vibe_config.json', DEFAULT_VIBE_CONFIG);
   const rt = await kvGetJson<VibeRuntime>(env, url, '/vibe_runtime.json', {} as VibeRuntime);
-  return new Response(JSON.stringify({ ok: true, config: cfg, runtime: rt }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
+  const rate = await createAsterClient(env, url).rateState();
+  const heartbeat = await kvGetJson<HeartbeatState>(env, url, HEARTBEAT_KEY, { symbols: {}, outages: [] });
+  return new Response(JSON.stringify({ ok: true, config: cfg, runtime: rt, rate, heartbeat, session: rt.session ?? null, drawdown: rt.drawdown ?? null }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
 }
 
 async function handleVibeRun(req: Request, env: Env) {
@@ -496,7 +1942,18 @@ async function handleVibeRun(req: Request, env: Env) {
     leverageCap: Number(body?.leverageCap ?? cfg.leverageCap),
     marginMode: body?.marginMode === 'isolated' ? 'isolated' : 'cross',
     model: typeof body?.model === 'string' && body.model ? body.model : cfg.model,
-    maxLossPerTradeUsd: Number(body?.maxLossPerTradeUsd ?? cfg.maxLossPerTradeUsd)
+    maxLossPerTradeUsd: Number(body?.maxLossPerTradeUsd ?? cfg.maxLossPerTradeUsd),
+    hedgeMode: typeof body?.hedgeMode === 'boolean' ? body.hedgeMode : !!cfg.hedgeMode,
+    execution: executionPolicy(body?.execution, cfg.execution),
+    twap: twapPolicy(body?.twap, cfg.twap),
+    cancelCountdownSec: Math.max(0, Number(body?.cancelCountdownSec ?? cfg.cancelCountdownSec ?? DEFAULT_CANCEL_COUNTDOWN_SEC) || 0),
+    session: sessionPolicy(body?.session, cfg.session),
+    exposure: exposurePolicy(body?.exposure, cfg.exposure),
+    sizing: sizingPolicy(body?.sizing, cfg.sizing),
+    plan: planPolicy(body?.plan, cfg.plan),
+    stops: stopPolicy(body?.stops, cfg.stops),
+    scaleOut: scaleOutPolicy(body?.scaleOut, cfg.scaleOut),
+    drawdown: drawdownPolicy(body?.drawdown, cfg.drawdown)
   };
   await kvPutJson(env, url, '/vibe_config.json', next);
   await appendLog(env, url, { type: 'vibe_status', status: 'running' });
@@ -514,6 +1971,8 @@ async function handleVibeStop(req: Request, env: Env) {
   const cfg = await kvGetJson<VibeConfig>(env, url, '/vibe_config.json', DEFAULT_VIBE_CONFIG);
   const next: VibeConfig = { ...cfg, status: 'stopped' };
   await kvPutJson(env, url, '/vibe_config.json', next);
+  // A deliberate stop keeps resting protection; only an unplanned silence should cancel it
+  if (env.ASTER_API_SECRET) await renewHeartbeat(env, url, createAsterClient(env, url).critical, 0, [], true).catch(() => null);
   await appendLog(env, url, { type: 'vibe_status', status: 'stopped' });
   return new Response(JSON.stringify({ ok: true, config: next }), { headers: cors({ 'Content-Type': 'application/json' }) });
 }
@@ -527,7 +1986,7 @@ async function callLLMDecider(env: Env, state: any, cfg: VibeConfig): Promise<an
   // VERSION: v2-active-trader-2025-01-25
   const sys = `You are an ACTIVE intraday futures trader. Your goal is to find and execute trades. Only choose FLAT if there is absolutely no reasonable setup across any symbol.
 
-You are given per-symbol indicators: ema9, ema21, rsi14, atr14, vwap, rangePct, plus prices and change24h.
+You are given per-symbol indicators: ema9, ema21, rsi14, atr14, vwap, rangePct, plus prices, change24h and funding (rate charged at nextFundingTime, a unix ms time; longs pay shorts when the rate is positive).
 
 TRADING APPROACH:
 - ACTIVELY look for trades - scan all symbols for opportunities
@@ -567,25 +2026,37 @@ Respect risk limits: maxRiskPerTradeUsd=${cfg.maxRiskPerTradeUsd}, maxExposureUs
   return { parsed, meta: { provider: 'qwen', model, sys, stateSummary: { equityUsd: state?.balances?.equityUsd, positionsCount: state?.positions?.length ?? 0 } } };
 }
 
-async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
+async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false, tickId: string = adhocTickId('m')) {
   const cfg = await kvGetJson<VibeConfig>(env, url, '/vibe_config.json', DEFAULT_VIBE_CONFIG);
   const rt = await kvGetJson<VibeRuntime>(env, url, '/vibe_runtime.json', {} as VibeRuntime);
   const eventsKey = new URL('/__events.json', url).toString();
   const events = ((await env.MEAP_KV.get(eventsKey, { type: 'json' })) as any[]) || [];
   if (cfg.status !== 'running' && !ignoreStatus) return { skipped: 'stopped' };
+  const aster = createAsterClient(env, url, {
+    onRateLimit: async (e) => { await appendLog(env, url, { type: 'vibe_rate_limit', ...e }); }
+  });
+  const symbolRules = createSymbolRules(env, url, aster);
+  // While the user-data stream is live it books fills into the ledger; the tick only sends orders
+  const streamLive = userStreamLive(await callUserStream(env, url, 'ensure').catch(() => null));
+  // Klines and prices come from the market-data stream; symbols it cannot serve fall back to REST
+  const market = createMarketData(env, url, cfg.universe || [], aster.low);
 
   // Pull account available balance for equity sampling
   let availableBalance = 0;
   let equityUsd = 0;
   let sampledEquity = 0; // always record latest equity, even if later logic fails
+  let unrealizedUsd: number | null = null;
   try {
-    const acct = await asterFapiGetJson(env, '/fapi/v2/account');
+    const acct = await aster.account();
     availableBalance = Number(acct?.availableBalance || '0');
     const wallet = Number(acct?.totalWalletBalance || acct?.totalMarginBalance || 0);
     const unrl = Number(acct?.totalUnrealizedProfit || 0);
+    if (Number.isFinite(unrl)) unrealizedUsd = unrl;
     equityUsd = Number.isFinite(wallet + unrl) ? wallet + unrl : availableBalance;
     sampledEquity = equityUsd;
-  } catch {}
+  } catch (e: any) {
+    await appendLog(env, url, { type: 'vibe_error', where: 'account', ...asterErrorInfo(e) });
+  }
   // Store baseline initial equity once
   try {
     const initKey = new URL('/vibe_initial_equity.json', url).toString();
@@ -594,34 +2065,60 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
       await env.MEAP_KV.put(initKey, JSON.stringify({ at: Date.now(), equityUsd }));
     }
   } catch {}
-  // Include current prices and 24h stats for intraday reasoning
+  // Daily loss session; the first tick of a halt cancels running TWAP schedules
+  try {
+    const wasHalted = !!rt.session?.halted && rt.session.resetAt > Date.now();
+    rt.session = await updateRiskSession(env, url, cfg, rt.session, unrealizedUsd);
+    rt.sessionLossUsd = rt.session.lossUsd;
+    if (rt.session.halted && !wasHalted) {
+      for (const job of Object.values(await getTwapJobs(env, url))) await cancelTwapJobs(env, url, job.symbol, job.side, 'Daily loss limit hit');
+    }
+  } catch (e: any) {
+    await appendLog(env, url, { type: 'vibe_error', where: 'risk_session', error: String(e?.message || e) });
+  }
+  const sessionHalted = !!rt.session?.halted && rt.session.resetAt > Date.now();
+  // Drawdown from the equity peak sets the size tier for this tick's entry
+  try {
+    rt.drawdown = await updateDrawdown(env, url, cfg, rt.drawdown, equityUsd);
+  } catch (e: any) {
+    await appendLog(env, url, { type: 'vibe_error', where: 'drawdown', error: String(e?.message || e) });
+  }
+  const drawdownMult = rt.drawdown?.sizeMult ?? 1;
+  // Include current prices and 24h stats for intraday reasoning (low priority: dropped near the weight limit)
   const prices: Record<string, number> = {};
   const change24h: Record<string, number> = {};
   try {
+    await market.snapshot();
     const [priceArr, stats24] = await Promise.all([
-      Promise.all((cfg.universe || []).map(sym => asterFapiGetPublicJson(env, `/fapi/v1/ticker/price?symbol=${sym}`))),
-      asterFapiGetPublicJson(env, '/fapi/v1/ticker/24hr')
+      Promise.all((cfg.universe || []).map(sym => market.price(sym, aster.low))),
+      aster.low.ticker24h().catch(() => null)
     ]);
     for (let i = 0; i < (cfg.universe || []).length; i++) {
       const sym = cfg.universe[i];
-      const p = Number((priceArr[i] as any)?.price || 0);
-      if (p > 0 && Number.isFinite(p)) prices[sym] = p;
+      const p = priceArr[i];
+      if (p) prices[sym] = p;
     }
     if (Array.isArray(stats24)) {
       for (const s of stats24) {
         const sym = String(s?.symbol || '');
         if (!sym) continue;
         if (!cfg.universe.includes(sym)) continue;
-        const pct = Number(s?.priceChangePercent ?? s?.P ?? 0);
+        const pct = Number(s?.priceChangePercent ?? 0);
         if (Number.isFinite(pct)) change24h[sym] = pct;
       }
     }
   } catch {}
 
+  // Latest funding rate and next funding time per symbol
+  let funding: Record<string, { rate: number; nextFundingTime: number }> = {};
+  try {
+    funding = await market.funding(cfg.universe || [], aster.low);
+  } catch {}
+
   // Indicators per symbol (lightweight 1m window)
   const indicators: Record<string, any> = {};
   try {
-    const klAll = await Promise.all((cfg.universe || []).map(sym => fetchKlines(env, sym, '1m', 120)));
+    const klAll = await Promise.all((cfg.universe || []).map(sym => market.klines(sym, 120)));
     for (let i = 0; i < (cfg.universe || []).length; i++) {
       const sym = cfg.universe[i];
       const kl = klAll[i] as any[];
@@ -629,19 +2126,53 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
       indicators[sym] = computeIndicatorsFromKlines(kl);
     }
   } catch {}
-  const state = { balances: { equityUsd }, positions: [], universe: cfg.universe, prices, change24h, indicators };
+  const state = { balances: { equityUsd }, positions: [], universe: cfg.universe, prices, change24h, funding, indicators };
 
   // Enforce SL/TP and min-hold on existing open trades before making a new decision
   try {
     const openMap = await getOpenTrades(env, url);
-    const syms = Object.keys(openMap);
-    for (const sym of syms) {
-      const t = openMap[sym];
+    for (const [key, t] of Object.entries(openMap)) {
+      const sym = t.symbol;
       const now = Date.now();
+      // Exchange-side stop or target already filled: book it from the order and move on
+      const hit = !streamLive && (t.slOrderId || t.tpOrderId) ? await filledProtection(aster.critical, t) : null;
+      if (hit) {
+        const qty = Number(hit.order.executedQty) || t.qty;
+        const exitPrice = Number(hit.order.avgPrice) || Number(hit.order.stopPrice) || 0;
+        const closedAt = hit.order.updateTime || now;
+        await appendLog(env, url, { type: 'vibe_order', status: 200, ok: true, symbol: sym, side: hit.order.side, qty, notional: qty * exitPrice, reason: hit.reason, body: hit.order });
+        const booked = await bookFromFills(env, url, aster, t, [hit.order.orderId]);
+        await appendClosedTrade(env, url, {
+          symbol: sym,
+          side: t.side,
+          qty,
+          entryPrice: t.entryPrice,
+          exitPrice,
+          notionalEntry: t.entryPrice * qty,
+          notionalExit: exitPrice * qty,
+          openedAt: t.openedAt,
+          closedAt,
+          holdingMs: Math.max(0, closedAt - t.openedAt),
+          pnlUsd: t.side === 'LONG' ? (exitPrice - t.entryPrice) * qty : (t.entryPrice - exitPrice) * qty,
+          provider: t.provider,
+          model: t.model,
+          thesis: t.thesis,
+          exitReason: hit.reason,
+          exitOrderId: hit.order.orderId,
+          fundingUsd: t.fundingUsd,
+          feesUsd: t.feesUsd,
+          stopHistory: t.stopHistory,
+          parentId: t.tradeId,
+          ...booked
+        });
+        delete openMap[key];
+        await setOpenTrades(env, url, openMap);
+        continue;
+      }
       const minHoldOk = typeof (t as any).minHoldMs === 'number' ? now - t.openedAt >= (t as any).minHoldMs : true;
-      const tick = await asterFapiGetPublicJson(env, `/fapi/v1/ticker/price?symbol=${sym}`);
-      const price = Number(tick?.price || 0);
-      if (!price || !Number.isFinite(price)) continue;
+      // Protective path: critical priority so closes still go out near the weight limit
+      const price = await market.price(sym, aster.critical);
+      if (!price) continue;
       let shouldClose = false;
       let reason = '';
       // Always enforce stop-loss immediately
@@ -663,48 +2194,64 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
           shouldClose = true; reason = `Max loss ${-Math.abs(cfg.maxLossPerTradeUsd)} hit`;
         }
       }
+      // A halted session set to flatten closes everything, min-hold or not
+      if (!shouldClose && sessionHalted && sessionPolicy(cfg.session).flatten) {
+        shouldClose = true; reason = 'Daily loss limit hit';
+      }
+      // Scale-out levels the price reached close their share; the take-profit still closes the rest
+      if (!shouldClose && minHoldOk && t.targets?.some(l => !l.done)) {
+        const scaled = await scaleOut(env, url, aster, tickId, t, price, await symbolRules.get(sym), streamLive);
+        if (scaled) {
+          const latest = await getOpenTrades(env, url);
+          if (latest[key]) {
+            latest[key] = { ...latest[key], ...scaled };
+            await setOpenTrades(env, url, latest);
+          }
+          Object.assign(t, scaled);
+        }
+      }
+      // Ratchet the stop of a trade that stays open under its trailing and break-even rules
+      const move = !shouldClose ? nextStop(t, price, indicators[sym]?.atr14 ?? null) : null;
+      if (move) {
+        const moved = await moveStop(env, url, aster.critical, tickId, t, move, await symbolRules.get(sym));
+        if (moved) {
+          // Re-read so fills the stream wrote since the loop started are kept
+          const latest = await getOpenTrades(env, url);
+          if (latest[key]) {
+            latest[key] = { ...latest[key], ...moved };
+            await setOpenTrades(env, url, latest);
+          }
+          openMap[key] = { ...t, ...moved };
+        }
+      }
       if (shouldClose) {
+        if (streamLive) await markClosing(env, url, key, reason);
         // Robust close: use live positionAmt, stepSize rounding, poll until flat, single aggregated Closed trade
-        const base = (env.ASTER_API_BASE || '').trim();
-        const apiKey = (env as any).ASTER_API_KEY;
-        const apiSecret = (env as any).ASTER_API_SECRET;
         let totalQtyClosed = 0;
         let sumNotionalExit = 0;
         let lastExitPrice = price;
         let attempts = 0;
-        // Preload exchangeInfo for step size
-        let step = 0.0001;
-        try {
-          const info = await getExchangeInfo(env);
-          step = stepSizeForSymbol(info, sym).step;
-        } catch {}
-        const fetchPos = async () => {
-          const ts = Date.now();
-          const recv = 5000;
-          const q = `timestamp=${ts}&recvWindow=${recv}`;
-          const sig = await hmacHex('SHA-256', apiSecret, q);
-          const r = await fetch(`${base}/fapi/v2/positionRisk?${q}&signature=${sig}`, { headers: { 'X-MBX-APIKEY': apiKey } });
-          const txt = await r.text();
-          const arr = (()=>{ try { return JSON.parse(txt); } catch { return null; } })();
-          const list = Array.isArray(arr) ? arr : [];
-          return list.find((p:any)=> String(p?.symbol||'')===sym) || null;
-        };
+        const exitOrderIds: number[] = [];
+        const rules = await symbolRules.get(sym);
+        // Hedge mode reports a row per leg; only this trade's leg is closed
+        const fetchPos = async () => (await aster.critical.positionRisk(sym)).find(p => p.symbol === sym && (!t.positionSide || p.positionSide === t.positionSide)) || null;
         while (attempts < 8) {
           attempts++;
-          const p = base && apiKey && apiSecret ? await fetchPos() : null;
+          const p = aster.configured ? await fetchPos() : null;
           const amt = Number(p?.positionAmt || 0);
           if (!p || Math.abs(amt) <= 0) break;
           const side = amt > 0 ? 'SELL' : 'BUY';
           const qtyRaw = Math.abs(amt);
-          const steps = Math.max(1, Math.floor(qtyRaw / step));
-          const qty = steps * step;
+          // Dust below one step is closed with the minimum lot; reduce-only caps it at the position
+          const qty = rules ? roundQty(rules, qtyRaw, true) || rules.marketMinQty : qtyRaw;
           if (!(qty > 0)) break;
-          const res = await asterFapiSignedPost(env, '/fapi/v1/order', { symbol: sym, side, type: 'MARKET', quantity: qty, reduceOnly: 'true' });
-          const resTxt = await res.text();
-          const resBody = (()=>{ try { return JSON.parse(resTxt); } catch { return { raw: resTxt }; } })();
+          const res = await sendOrder(env, url, aster.critical, tickId, `c${attempts}`, { symbol: sym, side, type: 'MARKET', quantity: qty, ...reduceParams(t.positionSide) }, { rules, markPrice: price });
+          const resBody = res.body;
           await appendLog(env, url, { type: 'vibe_order', status: res.status, ok: res.ok, symbol: sym, side, qty, notional: qty * (Number(resBody?.avgPrice||resBody?.price||price)||price), reason, body: resBody });
+          if (resBody?.local) break;
           if (res.ok) {
             const px = Number(resBody?.avgPrice || resBody?.price || price) || price;
+            if (res.order) exitOrderIds.push(res.order.orderId);
             totalQtyClosed += qty;
             sumNotionalExit += px * qty;
             lastExitPrice = px;
@@ -715,10 +2262,11 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
         // Final check: are we flat?
         let finalAmt = 0;
         try {
-          const p = base && apiKey && apiSecret ? await fetchPos() : null;
+          const p = aster.configured ? await fetchPos() : null;
           finalAmt = Number(p?.positionAmt || 0);
         } catch {}
-        if (Math.abs(finalAmt) <= 0 && totalQtyClosed > 0) {
+        // With the stream live the fills book the trade and cancel the leftover protection
+        if (Math.abs(finalAmt) <= 0 && totalQtyClosed > 0 && !streamLive) {
           const exitPrice = totalQtyClosed > 0 ? (sumNotionalExit / totalQtyClosed) : lastExitPrice;
           const pnlUsd = t.side === 'LONG' ? (exitPrice - t.entryPrice) * totalQtyClosed : (t.entryPrice - exitPrice) * totalQtyClosed;
           const closed: ClosedTrade = {
@@ -735,17 +2283,88 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
             pnlUsd,
             provider: t.provider,
             model: t.model,
-            thesis: (t as any).thesis
+            thesis: (t as any).thesis,
+            exitReason: reason,
+            fundingUsd: t.fundingUsd,
+            feesUsd: t.feesUsd,
+            stopHistory: t.stopHistory,
+            parentId: t.tradeId,
+            exitOrderId: exitOrderIds[exitOrderIds.length - 1],
+            ...(await bookFromFills(env, url, aster, t, exitOrderIds))
           };
           await appendClosedTrade(env, url, closed);
-          delete openMap[sym];
+          await cancelProtection(aster.critical, t);
+          delete openMap[key];
           await setOpenTrades(env, url, openMap);
         }
       }
     }
-  } catch {}
+  } catch (e: any) {
+    await appendLog(env, url, { type: 'vibe_error', where: 'enforce', ...asterErrorInfo(e) });
+  }
+
+  // Renew the dead-man's switch on every symbol with a trade or a running TWAP schedule, and put
+  // back protection an outage cancelled. A run of failed ticks stops renewing so the exchange cancels.
+  if (env.ASTER_API_SECRET) {
+    try {
+      const failing = (rt.failedTicks || 0) >= HEARTBEAT_MAX_FAILED_TICKS;
+      if ((rt.failedTicks || 0) === HEARTBEAT_MAX_FAILED_TICKS) {
+        await appendLog(env, url, { type: 'vibe_heartbeat', event: 'withheld', failedTicks: rt.failedTicks, lastError: rt.lastError });
+      }
+      const open = await getOpenTrades(env, url);
+      const jobs = Object.values(await getTwapJobs(env, url)).filter(j => j.status === 'running');
+      const active = [...new Set([...Object.values(open).map(t => t.symbol), ...jobs.map(j => j.symbol)])];
+      const fired = failing
+        ? await renewHeartbeat(env, url, aster.critical, 0, [], false)
+        : await renewHeartbeat(env, url, aster.critical, cancelCountdownMs(cfg), active, true);
+      for (const [key, t] of failing ? [] : Object.entries(open)) {
+        if (!fired.includes(t.symbol) || (!t.slOrderId && !t.tpOrderId)) continue;
+        const resting = new Set((await aster.critical.openOrders(t.symbol)).map(o => o.orderId));
+        if ((!t.slOrderId || resting.has(t.slOrderId)) && (!t.tpOrderId || resting.has(t.tpOrderId))) continue;
+        await cancelProtection(aster.critical, t);
+        const protection = await placeProtection(env, url, aster.critical, tickId, t, await symbolRules.get(t.symbol), 'r');
+        const latest = await getOpenTrades(env, url);
+        if (latest[key]) {
+          latest[key] = { ...latest[key], slOrderId: undefined, tpOrderId: undefined, ...protection };
+          await setOpenTrades(env, url, latest);
+        }
+        await appendLog(env, url, { type: 'vibe_heartbeat', event: 'protection_restored', symbol: t.symbol, side: t.side, ...protection });
+      }
+    } catch (e: any) {
+      await appendLog(env, url, { type: 'vibe_error', where: 'heartbeat', ...asterErrorInfo(e) });
+    }
+    // Credit funding settled since the last funding time to the trades that held it
+    try {
+      await syncFunding(env, url, aster.low, funding);
+    } catch (e: any) {
+      await appendLog(env, url, { type: 'vibe_error', where: 'funding', ...asterErrorInfo(e) });
+    }
+  }
 
   try {
+    // Paused by a 429/418 or out of weight budget: protective closes above still ran (unless banned), skip new decisions
+    if (await aster.deferred('normal')) {
+      const rate = await aster.rateState();
+      await appendLog(env, url, { type: 'vibe_rate_limit', skipped: 'decision', usedWeight: rate.usedWeight, weightLimit: rate.weightLimit, pausedUntil: rate.pausedUntil });
+      await kvPutJson(env, url, '/vibe_runtime.json', { ...rt, lastTickAt: Date.now() });
+      return { ok: true, skipped: 'rate_limited' };
+    }
+    // Entries the exchange accepted on an earlier tick without a fill are booked once they settle
+    if (env.ASTER_API_SECRET) {
+      try {
+        await settlePendingEntries(env, url, aster, symbolRules, tickId, cfg, streamLive);
+      } catch (e: any) {
+        await appendLog(env, url, { type: 'vibe_error', where: 'pending_entries', ...asterErrorInfo(e) });
+      }
+    }
+    // Running TWAP schedules send their next slice whatever the decision is, unless the session is halted
+    if (env.ASTER_API_SECRET && !sessionHalted) {
+      try {
+        await runTwapJobs(env, url, aster, market, symbolRules, tickId, executionPolicy(cfg.execution), streamLive);
+      } catch (e: any) {
+        await appendLog(env, url, { type: 'vibe_error', where: 'twap', ...asterErrorInfo(e) });
+      }
+    }
     // LLM-only decision
     const syms = cfg.universe;
     let selectedAction: 'LONG' | 'SHORT' | 'FLAT' = 'FLAT';
@@ -768,22 +2387,39 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
     selectedAction = (['LONG','SHORT','FLAT'].includes(llm.parsed?.action) ? llm.parsed.action : 'FLAT') as any;
     // Log LLM response for debugging
     await appendLog(env, url, { type: 'vibe_llm_response', action: selectedAction, symbol: selectedSymbol, parsed: llm.parsed, raw: llm.parsed });
-    // Size clamp: target 50% of equity for larger, fewer trades (but still respect maxRiskPerTradeUsd cap)
-    const targetRisk = Math.max(0, Math.floor((state.balances?.equityUsd || availableBalance) * 0.50));
-    const sizeUsd = Math.min(cfg.maxRiskPerTradeUsd, targetRisk);
+    // Check the plan before it sizes anything; every failed check is logged on its own, as a
+    // rejection or as a repair the entry goes ahead with
+    let planRejected = false;
+    if (selectedAction === 'LONG' || selectedAction === 'SHORT') {
+      const original = { stopLoss: meta.stopLoss, takeProfit: meta.takeProfit, minHoldMs: meta.minHoldMs };
+      const checked = validatePlan(planPolicy(cfg.plan), selectedAction, prices[selectedSymbol] || 0, indicators[selectedSymbol]?.atr14 ?? null, sizingPolicy(cfg.sizing).atrMultiple, original);
+      for (const issue of checked.issues) {
+        await appendLog(env, url, { type: checked.rejected ? 'vibe_plan_rejected' : 'vibe_plan_repaired', symbol: selectedSymbol, side: selectedAction, ...issue, action: checked.rejected ? 'rejected' : 'repaired', price: prices[selectedSymbol], atr14: indicators[selectedSymbol]?.atr14 ?? null, plan: original, repaired: checked.rejected ? undefined : checked.plan });
+      }
+      planRejected = checked.rejected;
+      meta.stopLoss = checked.plan.stopLoss;
+      meta.takeProfit = checked.plan.takeProfit;
+      meta.minHoldMs = checked.plan.minHoldMs;
+    }
+    // Flat notional by default; the risk modes size from the stop distance
+    const sizing = positionSize(sizingPolicy(cfg.sizing), cfg, state.balances?.equityUsd || availableBalance, prices[selectedSymbol] || 0, meta.stopLoss, indicators[selectedSymbol]?.atr14 ?? null);
+    const sizeUsd = Math.floor(sizing.notionalUsd * drawdownMult);
 
     // Log decision or status (hide repetitive FLAT by converting into status summary)
     let lastOutput: any = null;
-    if (selectedAction === 'FLAT') {
+    if (selectedAction === 'FLAT' && await aster.deferred('low')) {
+      // Narration polls a ticker per open trade; leave the budget for trading calls
+      lastOutput = { type: 'vibe_status', skipped: true };
+    } else if (selectedAction === 'FLAT') {
       try {
         const open = await getOpenTrades(env, url);
-        const posList = Object.entries(open);
+        const posList = Object.values(open);
         type Enriched = { sym: string; base: string; side: 'LONG'|'SHORT'; qty: number; entry: number; now: number|null; uPnL: number|null; tp?: number; sl?: number; minHoldLeftMin?: number };
         const enriched: Enriched[] = [];
         let unrealized = 0;
-        for (const [sym, t] of posList) {
-          const tick = await asterFapiGetPublicJson(env, `/fapi/v1/ticker/price?symbol=${sym}`);
-          const price = Number((tick as any)?.price || 0) || null;
+        for (const t of posList) {
+          const sym = t.symbol;
+          const price = await market.price(sym, aster.low);
           const pnl = price ? (t.side === 'LONG' ? (price - t.entryPrice) * t.qty : (t.entryPrice - price) * t.qty) : null;
           if (pnl !== null) unrealized += pnl;
           let minHoldLeftMin: number|undefined;
@@ -898,7 +2534,7 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
         }
       } catch {}
     } else {
-      const log = { type: 'vibe_decision', action: selectedAction, symbol: selectedSymbol, sizeUsd, notes: typeof (meta as any)?.thesis === 'string' ? (meta as any).thesis : '' };
+      const log = { type: 'vibe_decision', action: selectedAction, symbol: selectedSymbol, sizeUsd, sizing, ...(drawdownMult < 1 ? { drawdown: { tier: rt.drawdown!.tier, sizeMult: drawdownMult } } : {}), notes: typeof (meta as any)?.thesis === 'string' ? (meta as any).thesis : '' };
       await appendLog(env, url, log);
       events.push({ type: 'vibe_tick', at: Date.now(), ...log });
       await env.MEAP_KV.put(eventsKey, JSON.stringify(events));
@@ -914,7 +2550,7 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
         const coolOk = !rt.lastOrderAt || now - rt.lastOrderAt > 3 * 60 * 1000;
         // Check if we already have an open position on this symbol (allow stacking different symbols)
         const openMap = await getOpenTrades(env, url);
-        // Allow position stacking on different symbols - no restriction
+        // Stacking across symbols is bounded by maxExposureUsd and the per-symbol caps below
         // Check recent closed trades: avoid trading immediately after severe losses
         let recentLossCount = 0;
         let recentLossTotal = 0;
@@ -929,73 +2565,108 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
             }
           }
         } catch {}
-        // Don't trade if: cooldown not met, or just had 4+ severe recent losses (>$150 total)
-        const shouldSkip = !coolOk || (recentLossCount >= 4 && recentLossTotal < -150);
-        if (!shouldSkip && notional >= 10) {
-          const priceJ = await asterFapiGetPublicJson(env, `/fapi/v1/ticker/price?symbol=${selectedSymbol}`);
-          const price = Number(priceJ?.price || 0);
+        // A retried tick must not act twice: once this tick's entry or trim is booked (or went to
+        // another symbol) skip; otherwise sendOrder replays the recorded intent by client order id
+        const priorOpen = Object.values(await getOrderIntents(env, url)).find(i => i.tickId === tickId && (i.purpose === 'open' || i.purpose === 'rd') && i.status !== 'rejected');
+        const alreadyActed = !!priorOpen && (priorOpen.symbol !== selectedSymbol || !!tradeOn(openMap, priorOpen.symbol));
+        if (alreadyActed) await appendLog(env, url, { type: 'vibe_order_error', where: 'intent', symbol: selectedSymbol, error: `tick ${tickId} already placed ${priorOpen!.clientOrderId}` });
+        if (sessionHalted) await appendLog(env, url, { type: 'vibe_order_error', where: 'risk_session', symbol: selectedSymbol, error: `daily loss ${rt.session!.lossUsd} reached limit ${rt.session!.limitUsd}; entries blocked until ${new Date(rt.session!.resetAt).toISOString()}` });
+        if (drawdownMult <= 0) await appendLog(env, url, { type: 'vibe_order_error', where: 'drawdown', symbol: selectedSymbol, error: `drawdown ${rt.drawdown!.drawdownPct}% from peak ${rt.drawdown!.peakUsd} reached tier ${rt.drawdown!.tier}; entries blocked until equity recovers` });
+        // Don't trade if: plan rejected, session halted, drawdown tier blocks entries, cooldown not met, or just had 4+ severe recent losses (>$150 total)
+        const shouldSkip = planRejected || sessionHalted || drawdownMult <= 0 || alreadyActed || !coolOk || (recentLossCount >= 4 && recentLossTotal < -150);
+        // Position mode, leverage and margin type must match config before the first order on a symbol
+        const dual = !shouldSkip && notional >= 10 ? await ensurePositionMode(env, url, aster, cfg) : false;
+        const settings = !shouldSkip && notional >= 10 ? await ensureSymbolSettings(env, url, aster, cfg, selectedSymbol) : null;
+        if (settings && !settings.ok) {
+          await appendLog(env, url, { type: 'vibe_order_error', where: 'symbol_settings', symbol: selectedSymbol, error: settings.reason });
+        }
+        if (settings?.ok) {
+          const price = (await market.price(selectedSymbol, aster)) || 0;
           if (price > 0) {
-            // stepSize-aware qty rounding
-            let qtyRaw = notional / price;
-            let qty = Math.max(0.0001, qtyRaw);
-            try {
-              const info = await getExchangeInfo(env);
-              const { step, minNotional } = stepSizeForSymbol(info, selectedSymbol);
-              const steps = Math.max(1, Math.floor(qty / step));
-              qty = steps * step;
-              if (minNotional && qty * price < minNotional) {
-                const needQty = Math.ceil(minNotional / price / step) * step;
-                qty = Math.max(qty, needQty);
+            // Round down to the market lot step, then up to the smallest lot that clears minNotional
+            const rules = await symbolRules.get(selectedSymbol);
+            const qtyRaw = notional / price;
+            const sized = rules ? Math.max(roundQty(rules, qtyRaw, true), minMarketQty(rules, price)) : qtyRaw;
+            // The sized quantity is the target position; the order is the difference from what is held
+            const leg = dual ? selectedAction : undefined;
+            const live = await liveHolding(aster, selectedSymbol, leg, tradeOn(openMap, selectedSymbol, leg));
+            const minQty = rules ? minMarketQty(rules, price) : 0;
+            const intent = netIntent(selectedAction, live.amount, sized, minQty);
+            // Live notional from positionRisk plus what the order adds must fit the account and symbol caps
+            if (intent.kind === 'open' || intent.kind === 'add' || intent.kind === 'flip') {
+              intent.qty = await capExposure(env, url, aster, cfg, selectedSymbol, selectedAction, dual, intent.qty, price, rules);
+              // Without room for the new side a flip only closes
+              if (intent.kind === 'flip' && intent.qty > 0 && intent.qty - intent.heldQty < minQty) {
+                intent.kind = 'close';
+                intent.qty = intent.heldQty;
               }
-            } catch {}
-            const side = selectedAction === 'LONG' ? 'BUY' : 'SELL';
-            const r = await asterFapiSignedPost(env, '/fapi/v1/order', { symbol: selectedSymbol, side, type: 'MARKET', quantity: qty });
-            const txt = await r.text();
-            const body = (() => { try { return JSON.parse(txt); } catch { return { raw: txt }; } })();
-            await appendLog(env, url, { type: 'vibe_order', status: r.status, ok: r.ok, symbol: selectedSymbol, side, qty, notional, body, reason: meta?.thesis || '' });
-            if (r.ok) {
-              rt.lastOrderAt = now;
-              rt.lastSignal = selectedAction;
-              // Trades UI tracking: close opposite, then open new snapshot
-              try {
-                const open = await getOpenTrades(env, url);
-                const existing = open[selectedSymbol];
-                if (existing) {
-                  const notionalExit = Math.abs(existing.qty * price);
-                  const pnlUsd = existing.side === 'LONG' ? (price - existing.entryPrice) * existing.qty : (existing.entryPrice - price) * existing.qty;
-                  await appendClosedTrade(env, url, {
-                    symbol: selectedSymbol,
-                    side: existing.side,
-                    qty: existing.qty,
-                    entryPrice: existing.entryPrice,
-                    exitPrice: price,
-                    notionalEntry: existing.notionalEntry,
-                    notionalExit,
-                    openedAt: existing.openedAt,
-                    closedAt: now,
-                    holdingMs: Math.max(0, now - existing.openedAt),
-                    pnlUsd,
-                    provider: meta.provider,
-                    model: meta.model,
-                    thesis: (existing as any).thesis
-                  });
-                }
-                open[selectedSymbol] = {
-                  symbol: selectedSymbol,
-                  side: selectedAction,
-                  qty,
-                  entryPrice: price,
-                  notionalEntry: Math.abs(qty * price),
-                  openedAt: now,
-                  provider: meta.provider,
-                  model: meta.model,
+            }
+            await appendLog(env, url, { type: 'vibe_intent', symbol: selectedSymbol, action: selectedAction, kind: intent.kind, side: intent.side, qty: intent.qty, heldQty: intent.heldQty, heldSide: intent.heldSide, targetQty: intent.targetQty });
+            // Leverage brackets cap the position notional at the applied leverage
+            const afterQty = intent.kind === 'flip' ? intent.qty - intent.heldQty : intent.kind === 'open' || intent.kind === 'add' ? intent.heldQty + intent.qty : 0;
+            const reducing = intent.kind === 'reduce' || intent.kind === 'close';
+            if (intent.kind === 'hold' || !(intent.qty > 0)) {
+              // Already at the target, or refused by the exposure caps (capExposure logged why)
+            } else if (!reducing && settings.maxNotional > 0 && afterQty * price > settings.maxNotional) {
+              await appendLog(env, url, { type: 'vibe_order_error', where: 'leverage_bracket', symbol: selectedSymbol, error: `notional ${(afterQty * price).toFixed(2)} exceeds ${settings.maxNotional} allowed at ${settings.leverage}x` });
+            } else {
+              const side = intent.side;
+              const qty = intent.qty;
+              const policy = executionPolicy(cfg.execution);
+              // Above the symbol's TWAP threshold only the first slice of a new position goes out now
+              const slices = intent.kind === 'open' ? twapSlices(twapPolicy(cfg.twap), selectedSymbol, qty, price, rules) : null;
+              const firstQty = slices && rules ? Math.max(roundQty(rules, qty / slices, true), minMarketQty(rules, price)) : slices ? qty / slices : qty;
+              await cancelTwapJobs(env, url, selectedSymbol, leg);
+              // Arm the switch before the first order on a symbol the tick has not been covering
+              await renewHeartbeat(env, url, aster.critical, cancelCountdownMs(cfg), [selectedSymbol], false);
+              // Trims and closes are plain reduce-only market orders; anything that adds is worked as an entry
+              let r: EntryFill;
+              if (reducing) {
+                const res = await sendOrder(env, url, aster.critical, tickId, 'rd', { symbol: selectedSymbol, side, type: 'MARKET', quantity: qty, ...reduceParams(leg) }, { rules, markPrice: price });
+                const filled = Number(res.order?.executedQty) || 0;
+                r = { ok: res.ok && filled > 0, status: res.status, body: res.body, qty: filled, avgPrice: Number(res.order?.avgPrice) || price, makerQty: 0, orderId: res.order?.orderId, orderIds: res.order ? [res.order.orderId] : [], orders: 1 };
+              } else {
+                r = await executeEntry(env, url, aster, market, tickId, policy, { symbol: selectedSymbol, side, type: 'MARKET', quantity: firstQty, ...(leg ? { positionSide: leg } : {}) }, { rules, markPrice: price });
+              }
+              const body = r.body;
+              await appendLog(env, url, { type: 'vibe_order', status: r.status, ok: r.ok, symbol: selectedSymbol, side, qty: r.ok ? r.qty : firstQty, notional: firstQty * price, intent: intent.kind, pending: !!r.pending, body, reason: meta?.thesis || '' });
+              const order: IntentOrder = {
+                symbol: selectedSymbol,
+                action: selectedAction,
+                leg,
+                kind: intent.kind,
+                heldQty: intent.heldQty,
+                heldEntryPrice: live.entryPrice,
+                plan: {
                   thesis: meta?.thesis,
                   stopLoss: typeof meta?.stopLoss === 'number' ? meta.stopLoss : undefined,
                   takeProfit: typeof meta?.takeProfit === 'number' ? meta.takeProfit : undefined,
                   minHoldMs: typeof meta?.minHoldMs === 'number' ? meta.minHoldMs : undefined
-                };
-                await setOpenTrades(env, url, open);
-              } catch {}
+                },
+                provider: meta.provider,
+                model: meta.model,
+                twap: slices ? { targetQty: qty, slices, refPrice: price } : undefined
+              };
+              if (!reducing && policy.mode !== 'market') {
+                await appendLog(env, url, { type: 'vibe_execution', symbol: selectedSymbol, side, mode: policy.mode, orders: r.orders, requestedQty: firstQty, filledQty: r.qty, makerQty: r.makerQty, avgPrice: r.avgPrice, refPrice: price });
+              }
+              if (r.ok) {
+                rt.lastOrderAt = now;
+                rt.lastSignal = selectedAction;
+                try {
+                  await bookIntentFill(env, url, aster, tickId, cfg, rules, streamLive, order, r);
+                } catch (e: any) {
+                  // The order went out; a failed ledger write, protection or TWAP record must show up
+                  await appendLog(env, url, { type: 'vibe_error', where: 'intent_ledger', symbol: selectedSymbol, intent: intent.kind, orderId: r.orderId, qty: r.qty, error: String(e?.message || e) });
+                }
+              } else if (r.pending) {
+                // Accepted without a fill yet; a later tick books it once the exchange settles it
+                rt.lastOrderAt = now;
+                rt.lastSignal = selectedAction;
+                const pending = await kvGetJson<Record<string, PendingEntry>>(env, url, PENDING_ENTRIES_KEY, {});
+                pending[String(r.pending.orderId)] = { ...order, orderId: r.pending.orderId, qty: r.pending.qty, tickId, createdAt: now };
+                await kvPutJson(env, url, PENDING_ENTRIES_KEY, pending);
+              }
             }
           }
         }
@@ -1011,13 +2682,13 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
       await kvPutJson(env, url, '/vibe_positions.json', { positions: state.positions });
     } catch {}
 
-    const nextRt: VibeRuntime = { ...rt, lastTickAt: Date.now(), lastError: null, lastProvider: meta.provider, lastModel: meta.model };
+    const nextRt: VibeRuntime = { ...rt, lastTickAt: Date.now(), lastError: null, lastProvider: meta.provider, lastModel: meta.model, failedTicks: 0 };
     await kvPutJson(env, url, '/vibe_runtime.json', nextRt);
     return { ok: true, meta, status: lastOutput?.type === 'vibe_status' ? lastOutput : undefined, decision: lastOutput?.type === 'vibe_decision' ? lastOutput : undefined };
   } catch (e: any) {
     const err = String(e?.message || e);
     await appendLog(env, url, { type: 'vibe_error', error: err });
-    const nextRt: VibeRuntime = { ...rt, lastTickAt: Date.now(), lastError: err };
+    const nextRt: VibeRuntime = { ...rt, lastTickAt: Date.now(), lastError: err, failedTicks: (rt.failedTicks || 0) + 1 };
     await kvPutJson(env, url, '/vibe_runtime.json', nextRt);
     return { ok: false, error: err };
   } finally {
@@ -1038,6 +2709,8 @@ async function vibeTick(env: Env, url: URL, ignoreStatus: boolean = false) {
         await kvPutJson(env, url, dk, dayList);
       }
     } catch {}
+    // Persist the weight readings once per tick rather than per request
+    await aster.persistRate();
   }
 }
 
@@ -1324,25 +2997,67 @@ async function handleVibeLogs(req: Request, env: Env) {
   return new Response(JSON.stringify({ logs: logs.slice(-200).reverse() }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
 }
 
+async function handleVibeOrderIntents(req: Request, env: Env) {
+  const url = new URL(req.url);
+  const intents = Object.values(await getOrderIntents(env, url)).sort((a, b) => b.createdAt - a.createdAt);
+  return new Response(JSON.stringify({ intents: intents.slice(0, 200) }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
+}
+
+// Expected vs realized entry slippage per symbol, newest rows first
+async function handleVibeSlippage(req: Request, env: Env) {
+  const url = new URL(req.url);
+  const rows = await kvGetJson<SlippageRecord[]>(env, url, SLIPPAGE_KEY, []);
+  const bySymbol: Record<string, { count: number; sent: number; shrunk: number; rejected: number; avgExpectedBps: number | null; avgActualBps: number | null }> = {};
+  const sums: Record<string, { exp: number; expN: number; act: number; actN: number }> = {};
+  for (const r of rows) {
+    const a = (bySymbol[r.symbol] ||= { count: 0, sent: 0, shrunk: 0, rejected: 0, avgExpectedBps: null, avgActualBps: null });
+    const s = (sums[r.symbol] ||= { exp: 0, expN: 0, act: 0, actN: 0 });
+    a.count++;
+    a[r.action]++;
+    if (r.expectedBps != null && r.action !== 'rejected') { s.exp += r.expectedBps; s.expN++; }
+    if (r.actualBps != null) { s.act += r.actualBps; s.actN++; }
+  }
+  for (const [sym, s] of Object.entries(sums)) {
+    bySymbol[sym].avgExpectedBps = s.expN ? s.exp / s.expN : null;
+    bySymbol[sym].avgActualBps = s.actN ? s.act / s.actN : null;
+  }
+  return new Response(JSON.stringify({ bySymbol, recent: rows.slice(-100).reverse() }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
+}
+
+async function handleVibeUserStream(req: Request, env: Env) {
+  const url = new URL(req.url);
+  const status = await getUserStreamStatus(env, url);
+  const account = await kvGetJson<any>(env, url, '/vibe_account_stream.json', null);
+  return new Response(JSON.stringify({ ok: true, configured: !!env.USER_STREAM, live: userStreamLive(status), status, account }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
+}
+
+// Admin: start or stop the user-data stream; a stopped stream stays down until started again
+async function handleVibeUserStreamControl(req: Request, env: Env, action: 'start' | 'stop') {
+  const url = new URL(req.url);
+  const admin = env.ADMIN_KEY;
+  const key = req.headers.get('x-admin-key') || '';
+  if (!admin || key !== admin) return new Response(JSON.stringify({ ok: false, error: 'forbidden' }), { status: 403, headers: cors({ 'Content-Type': 'application/json' }) });
+  if (!env.USER_STREAM) return new Response(JSON.stringify({ ok: false, error: 'USER_STREAM binding missing' }), { status: 400, headers: cors({ 'Content-Type': 'application/json' }) });
+  const status = await callUserStream(env, url, action);
+  await appendLog(env, url, { type: 'vibe_user_stream', event: action === 'start' ? 'started' : 'stopped' });
+  return new Response(JSON.stringify({ ok: true, status }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
+}
+
 async function handleVibePositions(req: Request, env: Env) {
   const url = new URL(req.url);
   // Live fetch from Aster (Binance-style fapi). No fallback.
   try {
-    const base = (env.ASTER_API_BASE || '').trim();
-    const apiKey = env.ASTER_API_KEY;
-    const apiSecret = env.ASTER_API_SECRET;
-    if (!base || !apiKey || !apiSecret) {
+    const aster = createAsterClient(env, url);
+    if (!aster.configured) {
       return new Response(JSON.stringify({ ok: false, error: 'ASTER_API_BASE/API_KEY/API_SECRET missing' }, null, 2), { status: 400, headers: cors({ 'Content-Type': 'application/json' }) });
     }
-    const ts = Date.now();
-    const recv = 5000;
-    const query = `timestamp=${ts}&recvWindow=${recv}`;
-    const sig = await hmacHex('SHA-256', apiSecret, query);
-    const r = await fetch(`${base}/fapi/v2/positionRisk?${query}&signature=${sig}`, { headers: { 'X-MBX-APIKEY': apiKey } });
-    const txt = await r.text();
-    const body = (() => { try { return JSON.parse(txt); } catch { return { raw: txt }; } })();
-    return new Response(JSON.stringify({ status: r.status, ok: r.ok, body }, null, 2), { status: r.status, headers: cors({ 'Content-Type': 'application/json' }) });
+    const body = await aster.positionRisk();
+    return new Response(JSON.stringify({ status: 200, ok: true, body }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
   } catch (e: any) {
+    if (e instanceof AsterApiError) {
+      const status = e.status || 502;
+      return new Response(JSON.stringify({ status, ok: false, body: e.toJSON() }, null, 2), { status, headers: cors({ 'Content-Type': 'application/json' }) });
+    }
     return new Response(JSON.stringify({ ok: false, error: String(e?.message || e) }, null, 2), { status: 500, headers: cors({ 'Content-Type': 'application/json' }) });
   }
 }
@@ -1351,21 +3066,17 @@ async function handleVibeBalances(req: Request, env: Env) {
   const url = new URL(req.url);
   // Live fetch from Aster (Binance-style fapi). No fallback.
   try {
-    const base = (env.ASTER_API_BASE || '').trim();
-    const apiKey = env.ASTER_API_KEY;
-    const apiSecret = env.ASTER_API_SECRET;
-    if (!base || !apiKey || !apiSecret) {
+    const aster = createAsterClient(env, url);
+    if (!aster.configured) {
       return new Response(JSON.stringify({ ok: false, error: 'ASTER_API_BASE/API_KEY/API_SECRET missing' }, null, 2), { status: 400, headers: cors({ 'Content-Type': 'application/json' }) });
     }
-    const ts = Date.now();
-    const recv = 5000;
-    const query = `timestamp=${ts}&recvWindow=${recv}`;
-    const sig = await hmacHex('SHA-256', apiSecret, query);
-    const r = await fetch(`${base}/fapi/v2/account?${query}&signature=${sig}`, { headers: { 'X-MBX-APIKEY': apiKey } });
-    const txt = await r.text();
-    const body = (() => { try { return JSON.parse(txt); } catch { return { raw: txt }; } })();
-    return new Response(JSON.stringify({ status: r.status, ok: r.ok, body }, null, 2), { status: r.status, headers: cors({ 'Content-Type': 'application/json' }) });
+    const body = await aster.account();
+    return new Response(JSON.stringify({ status: 200, ok: true, body }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
   } catch (e: any) {
+    if (e instanceof AsterApiError) {
+      const status = e.status || 502;
+      return new Response(JSON.stringify({ status, ok: false, body: e.toJSON() }, null, 2), { status, headers: cors({ 'Content-Type': 'application/json' }) });
+    }
     return new Response(JSON.stringify({ ok: false, error: String(e?.message || e) }, null, 2), { status: 500, headers: cors({ 'Content-Type': 'application/json' }) });
   }
 }
@@ -1425,20 +3136,11 @@ async function handleVibePrices(req: Request, env: Env) {
 async function handleVibeOpenTrades(req: Request, env: Env) {
   const url = new URL(req.url);
   try {
-    const base = (env.ASTER_API_BASE || '').trim();
-    const apiKey = (env as any).ASTER_API_KEY;
-    const apiSecret = (env as any).ASTER_API_SECRET;
-    if (!base || !apiKey || !apiSecret) {
+    const aster = createAsterClient(env, url);
+    if (!aster.configured) {
       return new Response(JSON.stringify({ trades: [], error: 'ASTER_API_BASE/API_KEY/API_SECRET missing' }, null, 2), { status: 200, headers: cors({ 'Content-Type': 'application/json' }) });
     }
-    const ts = Date.now();
-    const recv = 5000;
-    const query = `timestamp=${ts}&recvWindow=${recv}`;
-    const sig = await hmacHex('SHA-256', apiSecret, query);
-    const r = await fetch(`${base}/fapi/v2/positionRisk?${query}&signature=${sig}`, { headers: { 'X-MBX-APIKEY': apiKey } });
-    const txt = await r.text();
-    const body = (() => { try { return JSON.parse(txt); } catch { return null; } })();
-    const list = Array.isArray(body) ? body : [];
+    const list = await aster.positionRisk();
     const out: any[] = [];
     for (const p of list) {
       const symbol = String(p?.symbol || '');
@@ -1485,7 +3187,7 @@ async function handleVibeOldOpenTrades(req: Request, env: Env) {
   const olderThanMin = Math.max(0, Number(q.get('minMinutes') || '60'));
   const now = Date.now();
   const openMap = await getOpenTrades(env, url);
-  const list = Object.entries(openMap).map(([sym, t]) => ({ symbol: sym, ...t })).filter((t: any) => now - Number(t.openedAt || 0) >= olderThanMin * 60000);
+  const list = Object.values(openMap).filter((t: any) => now - Number(t.openedAt || 0) >= olderThanMin * 60000);
   return new Response(JSON.stringify({ ok: true, trades: list }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
 }
 
@@ -1499,20 +3201,27 @@ async function handleVibeCloseOldOpenTrades(req: Request, env: Env) {
   const olderThanMin = Math.max(0, Number(body?.minMinutes || 60));
   const now = Date.now();
   const openMap = await getOpenTrades(env, url);
+  const aster = createAsterClient(env, url);
+  const symbolRules = createSymbolRules(env, url, aster);
+  const tickId = adhocTickId('a');
+  const streamLive = userStreamLive(await getUserStreamStatus(env, url));
   const results: any[] = [];
-  for (const [sym, t] of Object.entries(openMap)) {
+  for (const [tkey, t] of Object.entries(openMap)) {
+    const sym = t.symbol;
     const openedAt = Number((t as any).openedAt || 0);
     if (now - openedAt < olderThanMin * 60000) continue;
     // reduce-only market close
     const side = (t as any).side === 'LONG' ? 'SELL' : 'BUY';
-    const qty = Number((t as any).qty || 0);
+    const rules = await symbolRules.get(sym);
+    const qty = rules ? roundQty(rules, Number((t as any).qty || 0), true) : Number((t as any).qty || 0);
     if (!qty || qty <= 0) continue;
+    if (streamLive) await markClosing(env, url, tkey, 'Admin close');
     try {
-      const r = await asterFapiSignedPost(env, '/fapi/v1/order', { symbol: sym, side, type: 'MARKET', quantity: qty, reduceOnly: 'true' });
+      const r = await sendOrder(env, url, aster, tickId, 'adm', { symbol: sym, side, type: 'MARKET', quantity: qty, ...reduceParams(t.positionSide) }, { rules, markPrice: Number((t as any).entryPrice) || 0 });
       const ok = r.ok;
-      const txt = await r.text();
-      results.push({ symbol: sym, qty, side, status: r.status, ok, body: (()=>{ try{ return JSON.parse(txt);}catch{return { raw: txt }; }})() });
-      if (ok) {
+      results.push({ symbol: sym, qty, side, status: r.status, ok, body: r.body });
+      // With the stream live the fill books the trade
+      if (ok && !streamLive) {
         // write closed record
         const price = Number((results[results.length-1].body?.avgPrice) || 0) || Number((results[results.length-1].body?.price) || 0) || 0;
         const pnlUsd = (t as any).side === 'LONG' ? (price - (t as any).entryPrice) * qty : ((t as any).entryPrice - price) * qty;
@@ -1529,10 +3238,18 @@ async function handleVibeCloseOldOpenTrades(req: Request, env: Env) {
           holdingMs: now - (t as any).openedAt,
           pnlUsd,
           provider: 'admin',
-          model: 'qwen2.5-32b-instruct'
+          model: 'qwen2.5-32b-instruct',
+          exitReason: 'Admin close',
+          fundingUsd: t.fundingUsd,
+          feesUsd: t.feesUsd,
+          stopHistory: t.stopHistory,
+          parentId: t.tradeId,
+          exitOrderId: r.order?.orderId,
+          ...(await bookFromFills(env, url, aster, t, [r.order?.orderId]))
         });
+        await cancelProtection(aster, t);
         // remove from open map
-        delete (openMap as any)[sym];
+        delete (openMap as any)[tkey];
         await setOpenTrades(env, url, openMap as any);
       }
     } catch (e: any) {
@@ -1549,48 +3266,48 @@ async function handleVibeCloseAllPositions(req: Request, env: Env) {
   const key = req.headers.get('x-admin-key') || '';
   if (!admin || key !== admin) return new Response(JSON.stringify({ ok: false, error: 'forbidden' }), { status: 403, headers: cors({ 'Content-Type': 'application/json' }) });
   try {
-    const base = (env.ASTER_API_BASE || '').trim();
-    const apiKey = (env as any).ASTER_API_KEY;
-    const apiSecret = (env as any).ASTER_API_SECRET;
-    if (!base || !apiKey || !apiSecret) return new Response(JSON.stringify({ ok: false, error: 'ASTER_API_BASE/API_KEY/API_SECRET missing' }), { status: 400, headers: cors({ 'Content-Type': 'application/json' }) });
+    const aster = createAsterClient(env, url);
+    if (!aster.configured) return new Response(JSON.stringify({ ok: false, error: 'ASTER_API_BASE/API_KEY/API_SECRET missing' }), { status: 400, headers: cors({ 'Content-Type': 'application/json' }) });
+    const tickId = adhocTickId('a');
     // Helper: fetch live positions
-    const fetchPositions = async () => {
-      const ts0 = Date.now(); const recv0 = 5000; const q0 = `timestamp=${ts0}&recvWindow=${recv0}`; const sig0 = await hmacHex('SHA-256', apiSecret, q0);
-      const r0 = await fetch(`${base}/fapi/v2/positionRisk?${q0}&signature=${sig0}`, { headers: { 'X-MBX-APIKEY': apiKey } });
-      const txt0 = await r0.text(); const arr0 = (()=>{ try{return JSON.parse(txt0);}catch{return null;} })();
-      return Array.isArray(arr0) ? arr0 : [];
-    };
+    const fetchPositions = () => aster.positionRisk();
     const results: any[] = [];
     const openMap = await getOpenTrades(env, url);
-    const info = await getExchangeInfo(env);
+    const symbolRules = createSymbolRules(env, url, aster);
+    const streamLive = userStreamLive(await getUserStreamStatus(env, url));
     const initialList = await fetchPositions();
     for (const p of initialList) {
       const symbol = String(p?.symbol||'');
+      if (!symbol || !Number(p?.positionAmt || 0)) continue;
       const entryPrice = Number(p?.entryPrice || 0) || 0;
       let totalQtyClosed = 0;
       let sumNotionalExit = 0;
       let lastExitPrice = Number(p?.markPrice || p?.entryPrice || 0) || 0;
-      const sideNow = Number(p?.positionAmt||0) > 0 ? 'SELL' : 'BUY';
-      const isLong = sideNow === 'SELL'; // if we SELL to close, position was LONG
-      const step = stepSizeForSymbol(info, symbol).step;
+      // Hedge mode lists each leg separately (SHORT legs carry a negative amount); one-way rows are BOTH
+      const positionSide = p.positionSide;
+      const legSide: 'LONG' | 'SHORT' = Number(p?.positionAmt||0) > 0 ? 'LONG' : 'SHORT';
+      const sameLeg = (x: any) => String(x?.symbol||'')===symbol && x?.positionSide === positionSide;
+      const rules = await symbolRules.get(symbol);
+      if (streamLive) await markClosing(env, url, tradeKey(symbol, legSide), 'Admin close all');
+      const exitOrderIds: number[] = [];
       // Loop: reduce-only orders until flat
       for (let i=0;i<8;i++) {
         const listNow = await fetchPositions();
-        const cur = listNow.find((x:any)=> String(x?.symbol||'')===symbol) || null;
+        const cur = listNow.find(sameLeg) || null;
         const amt = Number(cur?.positionAmt||0);
         if (!Number.isFinite(amt) || Math.abs(amt) <= 0) break;
         const side = amt > 0 ? 'SELL' : 'BUY';
         const qtyRaw = Math.abs(amt);
-        const steps = Math.max(1, Math.floor(qtyRaw / step));
-        const qty = steps * step;
+        const qty = rules ? roundQty(rules, qtyRaw, true) || rules.marketMinQty : qtyRaw;
         if (!(qty > 0)) break;
         try {
-          const orderRes = await asterFapiSignedPost(env, '/fapi/v1/order', { symbol, side, type: 'MARKET', quantity: qty, reduceOnly: 'true' });
-          const ok = orderRes.ok; const txt = await orderRes.text();
-          const parsed = (()=>{ try{return JSON.parse(txt);}catch{return { raw: txt }; }})();
+          const orderRes = await sendOrder(env, url, aster, tickId, `adm${i}`, { symbol, side, type: 'MARKET', quantity: qty, ...reduceParams(positionSide) }, { rules, markPrice: Number(cur?.markPrice) || lastExitPrice });
+          const ok = orderRes.ok;
+          const parsed = orderRes.body;
           results.push({ symbol, qty, side, status: orderRes.status, ok, body: parsed });
           if (ok) {
             const px = Number(parsed?.avgPrice || parsed?.price || 0) || lastExitPrice || entryPrice;
+            if (orderRes.order) exitOrderIds.push(orderRes.order.orderId);
             totalQtyClosed += qty;
             sumNotionalExit += px * qty;
             lastExitPrice = px;
@@ -1602,17 +3319,18 @@ async function handleVibeCloseAllPositions(req: Request, env: Env) {
       }
       // Final state
       const finalList = await fetchPositions();
-      const fin = finalList.find((x:any)=> String(x?.symbol||'')===symbol) || null;
+      const fin = finalList.find(sameLeg) || null;
       const finAmt = Number(fin?.positionAmt||0);
-      if (Math.abs(finAmt) <= 0 && totalQtyClosed > 0) {
+      if (Math.abs(finAmt) <= 0 && totalQtyClosed > 0 && !streamLive) {
         const closePrice = totalQtyClosed > 0 ? (sumNotionalExit / totalQtyClosed) : lastExitPrice || entryPrice;
-        const pnlUsd = (Number(p?.positionAmt||0) > 0)
+        const pnlUsd = legSide === 'LONG'
           ? (closePrice - entryPrice) * totalQtyClosed
           : (entryPrice - closePrice) * totalQtyClosed;
         const nowTs = Date.now();
+        const tracked = openMap[tradeKey(symbol, legSide)];
         await appendClosedTrade(env, url, {
           symbol,
-          side: (Number(p?.positionAmt||0) > 0) ? 'LONG' : 'SHORT',
+          side: legSide,
           qty: totalQtyClosed,
           entryPrice,
           notionalEntry: entryPrice * totalQtyClosed,
@@ -1623,9 +3341,20 @@ async function handleVibeCloseAllPositions(req: Request, env: Env) {
           holdingMs: 0,
           pnlUsd,
           provider: 'admin',
-          model: 'qwen2.5-32b-instruct'
+          model: 'qwen2.5-32b-instruct',
+          exitReason: 'Admin close all',
+          fundingUsd: tracked?.fundingUsd,
+          feesUsd: tracked?.feesUsd,
+          stopHistory: tracked?.stopHistory,
+          parentId: tracked?.tradeId,
+          exitOrderId: exitOrderIds[exitOrderIds.length - 1],
+          ...(await bookFromFills(env, url, aster, tracked || { symbol, side: legSide, qty: totalQtyClosed, entryPrice, notionalEntry: entryPrice * totalQtyClosed, openedAt: nowTs }, exitOrderIds))
         });
-        if (openMap && openMap[symbol]) { delete (openMap as any)[symbol]; await setOpenTrades(env, url, openMap as any); }
+        if (tracked) {
+          await cancelProtection(aster, tracked);
+          delete (openMap as any)[tradeKey(symbol, legSide)];
+          await setOpenTrades(env, url, openMap as any);
+        }
       }
     }
     return new Response(JSON.stringify({ ok: true, results }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
@@ -1686,16 +3415,10 @@ async function handleBackfillTradesIncome(req: Request, env: Env) {
     const from = Number(body?.from||0);
     const to = Number(body?.to||Date.now());
     if (!(to>from && Number.isFinite(from))) return new Response(JSON.stringify({ ok:false, error:'bad_range' }), { status:400, headers: cors({ 'Content-Type':'application/json' }) });
-    const base = (env.ASTER_API_BASE || '').trim();
-    const apiKey = (env as any).ASTER_API_KEY;
-    const apiSecret = (env as any).ASTER_API_SECRET;
-    if (!base || !apiKey || !apiSecret) return new Response(JSON.stringify({ ok:false, error:'ASTER_API_BASE/API_KEY/API_SECRET missing' }), { status:400, headers: cors({ 'Content-Type':'application/json' }) });
+    const aster = createAsterClient(env, url);
+    if (!aster.configured) return new Response(JSON.stringify({ ok:false, error:'ASTER_API_BASE/API_KEY/API_SECRET missing' }), { status:400, headers: cors({ 'Content-Type':'application/json' }) });
     // Pull income (realized PnL) over window
-    const q = `timestamp=${Date.now()}&recvWindow=5000&startTime=${from}&endTime=${to}`;
-    const sig = await hmacHex('SHA-256', apiSecret, q);
-    const r = await fetch(`${base}/fapi/v1/income?${q}&signature=${sig}`, { headers: { 'X-MBX-APIKEY': apiKey } });
-    const txt = await r.text(); const arr = (()=>{ try{return JSON.parse(txt);}catch{return null;} })();
-    const income = Array.isArray(arr) ? arr : [];
+    const income = await aster.income({ startTime: from, endTime: to });
     // Filter realized PnL entries and group by symbol/time proximity
     const realized = income.filter((x:any)=> String(x?.incomeType||'').toUpperCase()==='REALIZED_PNL');
     const bySym: Record<string, any[]> = {};
@@ -1718,7 +3441,7 @@ async function handleBackfillTradesIncome(req: Request, env: Env) {
         let exitPrice = 0; try { const tick = await asterFapiGetPublicJson(env, `/fapi/v1/ticker/price?symbol=${sym}`); exitPrice = Number(tick?.price||0)||0; } catch {}
         // Use Kv open map for entry if present; else skip
         const openMap = await getOpenTrades(env, url);
-        const t = openMap[sym];
+        const t = tradeOn(openMap, sym);
         if (!t || !(t.qty>0) || !(t.entryPrice>0)) { bucket = []; return; }
         const qty = Number(t.qty||0);
         const entryPrice = Number(t.entryPrice||0);
@@ -1738,7 +3461,7 @@ async function handleBackfillTradesIncome(req: Request, env: Env) {
           provider: 'admin',
           model: 'qwen2.5-32b-instruct'
         });
-        delete (openMap as any)[sym]; await setOpenTrades(env, url, openMap as any);
+        delete (openMap as any)[tradeKey(sym, t.side)]; await setOpenTrades(env, url, openMap as any);
         added++;
         bucket = [];
       };
@@ -1756,25 +3479,6 @@ async function handleBackfillTradesIncome(req: Request, env: Env) {
   }
 }
 
-async function asterFapiSignedGet(env: Env, path: string, params: Record<string, string | number>): Promise<any | null> {
-  const base = (env.ASTER_API_BASE || '').trim().replace(/\/+$/, '');
-  const apiKey = (env as any).ASTER_API_KEY;
-  const apiSecret = (env as any).ASTER_API_SECRET;
-  if (!base || !apiKey || !apiSecret) return null;
-  const ts = Date.now();
-  const recv = 5000;
-  const qp = new URLSearchParams();
-  for (const [k, v] of Object.entries(params)) qp.append(k, String(v));
-  qp.append('timestamp', String(ts));
-  qp.append('recvWindow', String(recv));
-  const sig = await hmacHex('SHA-256', apiSecret, qp.toString());
-  qp.append('signature', sig);
-  const url = `${base}${path}?${qp.toString()}`;
-  const r = await fetch(url, { headers: { 'X-MBX-APIKEY': apiKey } });
-  if (!r.ok) return null;
-  return await r.json().catch(() => null);
-}
-
 async function handleVibeBackfillTrades(req: Request, env: Env) {
   const url = new URL(req.url);
   const admin = env.ADMIN_KEY;
@@ -1788,38 +3492,52 @@ async function handleVibeBackfillTrades(req: Request, env: Env) {
     const startTime = Date.now() - days * 24 * 60 * 60 * 1000;
     const universe = Array.isArray(cfg.universe) && cfg.universe.length ? cfg.universe : ['BTCUSDT','ETHUSDT'];
 
-    type Fill = { time: number; price: number; qty: number; isBuy: boolean };
-    const symbolToFills: Record<string, Fill[]> = {};
+    type Fill = { id: number; time: number; price: number; qty: number; isBuy: boolean; realizedPnl: number; feeUsd: number };
+    // One replay per leg: the symbol in one-way mode, symbol and positionSide in hedge mode
+    type Leg = { symbol: string; positionSide: 'BOTH' | 'LONG' | 'SHORT'; fills: Fill[] };
+    const legs: Record<string, Leg> = {};
 
+    const aster = createAsterClient(env, url);
+    // A symbol whose fills cannot be read is reported and skipped; the others are still replayed
+    const symbols: Array<{ symbol: string; ok: boolean; fills?: number; error?: ReturnType<typeof asterErrorInfo> }> = [];
     for (const sym of universe) {
-      const data = await asterFapiSignedGet(env, '/fapi/v1/userTrades', { symbol: sym, startTime, limit: 1000 });
-      const arr = Array.isArray(data) ? data : [];
-      const fills: Fill[] = [];
+      let arr: any[];
+      try {
+        arr = await aster.userTrades({ symbol: sym, startTime, limit: 1000 });
+      } catch (e: any) {
+        symbols.push({ symbol: sym, ok: false, error: asterErrorInfo(e) });
+        continue;
+      }
+      symbols.push({ symbol: sym, ok: true, fills: arr.length });
       for (const t of arr) {
         const time = Number(t?.time || t?.T || 0);
         const price = Number(t?.price || t?.p || 0);
         const qty = Math.abs(Number(t?.qty || t?.q || 0));
         const sideStr = String(t?.side || '').toUpperCase();
         const isBuyer = Boolean(t?.isBuyer ?? t?.buyer ?? (sideStr === 'BUY'));
-        if (time && price > 0 && qty > 0) fills.push({ time, price, qty, isBuy: isBuyer });
+        const positionSide = t?.positionSide === 'LONG' || t?.positionSide === 'SHORT' ? t.positionSide : 'BOTH';
+        const leg = (legs[`${sym}|${positionSide}`] ||= { symbol: sym, positionSide, fills: [] });
+        if (time && price > 0 && qty > 0) leg.fills.push({ id: Number(t?.id || 0), time, price, qty, isBuy: isBuyer, realizedPnl: Number(t?.realizedPnl || 0) || 0, feeUsd: fillFeeUsd(t) });
       }
-      fills.sort((a,b)=>a.time-b.time);
-      symbolToFills[sym] = fills;
     }
+    for (const leg of Object.values(legs)) leg.fills.sort((a,b)=>a.time-b.time);
 
     type CT = {
       symbol: string; side: 'LONG'|'SHORT'; qty: number;
       entryPrice: number; exitPrice: number;
       notionalEntry: number; notionalExit: number;
       openedAt: number; closedAt: number; holdingMs: number; pnlUsd: number;
+      grossPnlUsd: number; feesUsd: number; netPnlUsd: number; fillIds: number[]; source: 'fills';
     };
     const closed: CT[] = [];
 
-    for (const [sym, fills] of Object.entries(symbolToFills)) {
+    for (const { symbol: sym, positionSide, fills } of Object.values(legs)) {
       let netQty = 0; // signed: long positive
       let side: 'LONG' | 'SHORT' | null = null;
       let entryQty = 0; let entryNotional = 0; let openedAt = 0;
       let exitQty = 0; let exitNotional = 0; let lastTime = 0;
+      // The exchange's realizedPnl and commission; a flipping fill is split by quantity
+      let realized = 0; let fees = 0; let fillIds: number[] = [];
 
       const flushClose = () => {
         if (entryQty > 0 && exitQty > 0) {
@@ -1827,7 +3545,6 @@ async function handleVibeBackfillTrades(req: Request, env: Env) {
           const entryPrice = entryNotional / entryQty;
           const exitPrice = exitNotional / exitQty;
           const s = (side || 'LONG');
-          const pnl = s === 'LONG' ? (exitPrice - entryPrice) * qty : (entryPrice - exitPrice) * qty;
           closed.push({
             symbol: sym,
             side: s,
@@ -1839,17 +3556,23 @@ async function handleVibeBackfillTrades(req: Request, env: Env) {
             openedAt: openedAt || lastTime,
             closedAt: lastTime,
             holdingMs: Math.max(0, lastTime - (openedAt || lastTime)),
-            pnlUsd: pnl
+            pnlUsd: realized,
+            grossPnlUsd: realized,
+            feesUsd: fees,
+            netPnlUsd: realized - fees,
+            fillIds,
+            source: 'fills'
           });
         }
         netQty = 0; side = null; entryQty = 0; entryNotional = 0; exitQty = 0; exitNotional = 0; openedAt = 0;
+        realized = 0; fees = 0; fillIds = [];
       };
 
       for (const f of fills) {
         lastTime = f.time;
         const sgn = f.isBuy ? 1 : -1;
-        // If no side yet, determine by first effective direction
-        if (side === null) side = sgn > 0 ? 'LONG' : 'SHORT';
+        // A hedge leg's side is fixed; otherwise the first effective direction sets it
+        if (side === null) side = positionSide !== 'BOTH' ? positionSide : sgn > 0 ? 'LONG' : 'SHORT';
         // If incoming trade continues current side
         const continues = (side === 'LONG' && sgn > 0) || (side === 'SHORT' && sgn < 0);
         if (continues) {
@@ -1857,11 +3580,17 @@ async function handleVibeBackfillTrades(req: Request, env: Env) {
           entryQty += f.qty;
           entryNotional += f.price * f.qty;
           netQty += sgn * f.qty;
+          fees += f.feeUsd;
+          fillIds.push(f.id);
         } else {
           // This reduces or closes the current side
+          const closing = Math.min(f.qty, Math.abs(netQty));
           exitQty += f.qty;
           exitNotional += f.price * f.qty;
           netQty += sgn * f.qty;
+          realized += f.realizedPnl;
+          fees += f.feeUsd * (closing / f.qty);
+          fillIds.push(f.id);
           if (Math.sign(netQty) === 0) {
             // closed fully
             flushClose();
@@ -1875,6 +3604,8 @@ async function handleVibeBackfillTrades(req: Request, env: Env) {
             entryQty = Math.abs(netQty);
             entryNotional = entryQty * f.price;
             exitQty = 0; exitNotional = 0;
+            fees = f.feeUsd * (entryQty / f.qty);
+            fillIds = [f.id];
           }
         }
       }
@@ -1892,7 +3623,7 @@ async function handleVibeBackfillTrades(req: Request, env: Env) {
     merged.sort((a:any,b:any)=> (a.closedAt||0) - (b.closedAt||0));
     await env.MEAP_KV.put(key, JSON.stringify(merged));
 
-    return new Response(JSON.stringify({ ok: true, added: closed.length, total: merged.length }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
+    return new Response(JSON.stringify({ ok: true, added: closed.length, total: merged.length, symbols }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
   } catch (e: any) {
     return new Response(JSON.stringify({ ok: false, error: String(e?.message || e) }, null, 2), { status: 500, headers: cors({ 'Content-Type': 'application/json' }) });
   }
@@ -1936,10 +3667,6 @@ function atr(highs: number[], lows: number[], closes: number[], period = 14): nu
   return out;
 }
 
-async function fetchKlines(env: Env, sym: string, interval: string, limit: number): Promise<any[] | null> {
-  return await asterFapiGetPublicJson(env, `/fapi/v1/klines?symbol=${sym}&interval=${interval}&limit=${limit}`);
-}
-
 function computeIndicatorsFromKlines(kl: any[]): { ema9: number|null; ema21: number|null; rsi14: number|null; atr14: number|null; vwap: number|null; rangePct: number|null } {
   if (!Array.isArray(kl) || kl.length < 21) return { ema9: null, ema21: null, rsi14: null, atr14: null, vwap: null, rangePct: null };
   const closes: number[] = kl.map((r: any) => Number(r[4]));
@@ -1973,21 +3700,6 @@ function computeIndicatorsFromKlines(kl: any[]): { ema9: number|null; ema21: num
   };
 }
 
-async function getExchangeInfo(env: Env): Promise<any | null> {
-  return await asterFapiGetPublicJson(env, '/fapi/v1/exchangeInfo');
-}
-
-function stepSizeForSymbol(info: any, sym: string): { step: number; minNotional?: number } {
-  try {
-    const s = info?.symbols?.find((x: any) => x?.symbol === sym);
-    const lot = s?.filters?.find((f: any) => f?.filterType === 'LOT_SIZE');
-    const notional = s?.filters?.find((f: any) => f?.filterType === 'MIN_NOTIONAL' || f?.filterType === 'NOTIONAL');
-    const step = Number(lot?.stepSize || 0);
-    const minNotional = Number(notional?.notional || notional?.minNotional || 0);
-    return { step: Number.isFinite(step) && step > 0 ? step : 0.0001, minNotional: Number.isFinite(minNotional) && minNotional > 0 ? minNotional : undefined };
-  } catch { return { step: 0.0001 }; }
-}
-
 export default {
   async fetch(req: Request, env: Env): Promise<Response> {
     const url = new URL(req.url);
@@ -2004,6 +3716,11 @@ export default {
     if (url.pathname === '/api/vibe/tick' && req.method === 'POST') return handleVibeTick(req, env);
     if (url.pathname === '/api/vibe/llm-test' && req.method === 'GET') return handleVibeLlmTest(req, env);
     if (url.pathname === '/api/vibe/logs' && req.method === 'GET') return handleVibeLogs(req, env);
+    if (url.pathname === '/api/vibe/order-intents' && req.method === 'GET') return handleVibeOrderIntents(req, env);
+    if (url.pathname === '/api/vibe/slippage' && req.method === 'GET') return handleVibeSlippage(req, env);
+    if (url.pathname === '/api/vibe/user-stream' && req.method === 'GET') return handleVibeUserStream(req, env);
+    if (url.pathname === '/api/vibe/user-stream/start' && req.method === 'POST') return handleVibeUserStreamControl(req, env, 'start');
+    if (url.pathname === '/api/vibe/user-stream/stop' && req.method === 'POST') return handleVibeUserStreamControl(req, env, 'stop');
     if (url.pathname === '/api/vibe/positions' && req.method === 'GET') return handleVibePositions(req, env);
     if (url.pathname === '/api/vibe/balances' && req.method === 'GET') return handleVibeBalances(req, env);
     if (url.pathname === '/api/vibe/equity' && req.method === 'GET') {
@@ -2102,7 +3819,10 @@ export default {
       const addr = hasPriv ? evmAddressFromPrivateKey(env.ASTER_PRIVATE_KEY as string) : null;
       const hasApiKey = !!env.ASTER_API_KEY;
       const hasApiSecret = !!env.ASTER_API_SECRET;
-      return new Response(JSON.stringify({ base: env.ASTER_API_BASE || null, evm: { enabled: hasPriv, address: addr }, apiKey: { enabled: hasApiKey && hasApiSecret } }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
+      // Force a clock sync so the reported offset is fresh
+      const aster = createAsterClient(env, url);
+      const clock = await aster.syncClock().catch((e: any) => asterErrorInfo(e));
+      return new Response(JSON.stringify({ base: env.ASTER_API_BASE || null, evm: { enabled: hasPriv, address: addr }, apiKey: { enabled: hasApiKey && hasApiSecret }, clock, recvWindow: aster.recvWindow }, null, 2), { headers: cors({ 'Content-Type': 'application/json' }) });
     }
     // Place tiny market order (notional-based): /api/vibe/order/market?symbol=BTCUSDT&notional=10
     // Disabled public order endpoint to prevent external influence
@@ -2122,7 +3842,7 @@ export default {
   },
   async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
     const url = new URL('https://api.naemu.com'); // base for KV key scoping; actual host not used
-    await vibeTick(env, url, true);
+    await vibeTick(env, url, true, tickIdFor(controller.scheduledTime));
   }
 };
 
@@ -0,0 +1,159 @@
+// Trade ledger kept in KV: open trades, closed trades, exchange fills and the activity log.
+// Shared by the cron tick and the user-data stream so both write the same records.
+
+export type LedgerEnv = { MEAP_KV: KVNamespace };
+
+export async function kvGetJson<T>(env: LedgerEnv, url: URL, key: string, fallback: T): Promise<T> {
+  const fullKey = new URL(key, url).toString();
+  const data = await env.MEAP_KV.get(fullKey, { type: 'json' });
+  return (data as T) ?? fallback;
+}
+
+export async function kvPutJson(env: LedgerEnv, url: URL, key: string, value: any): Promise<void> {
+  const fullKey = new URL(key, url).toString();
+  await env.MEAP_KV.put(fullKey, JSON.stringify(value));
+}
+
+export async function appendLog(env: LedgerEnv, url: URL, entry: any) {
+  const logs: any[] = await kvGetJson(env, url, '/vibe_logs.json', []);
+  logs.push({ at: Date.now(), ...entry });
+  if (logs.length > 500) logs.splice(0, logs.length - 500);
+  await kvPutJson(env, url, '/vibe_logs.json', logs);
+}
+
+// ----- Trades persistence for UI Completed Trades -----
+// Rules the tick applies to a trade's stopLoss: trail `distance` ATRs or percent behind the price,
+// and move to the entry once the trade is `breakEvenR` times its initial risk in profit
+export type StopRules = {
+  trail?: { mode: 'atr' | 'percent'; distance: number };
+  breakEvenR?: number;
+};
+
+export type StopMove = { at: number; stopLoss: number; reason: 'initial' | 'trail' | 'break_even' | 'plan' };
+
+// One partial take-profit: close `closePct` of what is open once the price reaches `price` (r × initial risk)
+export type ScaleOutTarget = { r: number; price: number; closePct: number; done?: boolean; orderId?: number };
+
+export type OpenTrade = {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  qty: number;
+  entryPrice: number;
+  notionalEntry: number;
+  openedAt: number;
+  provider?: string;
+  model?: string;
+  // thesis-driven fields
+  stopLoss?: number; // absolute price
+  takeProfit?: number; // absolute price
+  minHoldMs?: number; // minimum hold duration
+  thesis?: string; // human-readable thesis
+  // exchange-side reduce-only protection placed on entry
+  slOrderId?: number; // STOP_MARKET order id
+  tpOrderId?: number; // TAKE_PROFIT_MARKET order id
+  entryOrderId?: number; // last order that opened or added to the position
+  filled?: boolean; // entry qty and price come from exchange fills rather than the ticker
+  closeReason?: string; // why the tick sent a close; the stream books the fill with it
+  positionSide?: 'LONG' | 'SHORT'; // hedge-mode leg; orders on it name the leg instead of reduceOnly
+  twap?: { targetQty: number; slices: number; done: number; status: 'running' | 'done' | 'cancelled' }; // sliced entry progress
+  fundingUsd?: number; // funding received (+) or paid (-) while open
+  feesUsd?: number; // commission paid on the fills so far
+  stopRules?: StopRules; // trailing and break-even rules; stopLoss stays fixed without them
+  stopHistory?: StopMove[]; // every stopLoss the trade has had, the initial one first
+  tradeId?: string; // shared as parentId by every closed leg of this position
+  targets?: ScaleOutTarget[]; // scale-out levels short of takeProfit
+};
+
+export type ClosedTrade = {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  qty: number;
+  entryPrice: number;
+  exitPrice: number;
+  notionalEntry: number;
+  notionalExit: number;
+  openedAt: number;
+  closedAt: number;
+  holdingMs: number;
+  pnlUsd: number; // gross: the exchange's realizedPnl when booked from fills, else price PnL
+  provider?: string;
+  model?: string;
+  thesis?: string;
+  exitReason?: string;
+  exitOrderId?: number; // order whose fill closed the trade
+  source?: 'fills'; // booked from exchange fills (user stream or userTrades)
+  grossPnlUsd?: number; // sum of the fills' realizedPnl, before fees and funding
+  fundingUsd?: number; // funding received (+) or paid (-) over the holding period
+  feesUsd?: number; // commission on entry and exit fills
+  netPnlUsd?: number; // pnlUsd + fundingUsd - feesUsd
+  fillIds?: number[]; // trade ids of the entry and exit fills it was built from
+  stopHistory?: StopMove[]; // how the stop moved while the trade was open
+  parentId?: string; // tradeId of the position; scale-out legs and the final close share it
+  leg?: number; // scale-out level this partial close filled; the final close has none
+};
+
+// One execution as reported by ORDER_TRADE_UPDATE
+export type Fill = {
+  id: number; // trade id
+  orderId: number;
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  qty: number;
+  price: number;
+  realizedPnl: number;
+  commission: number;
+  commissionAsset: string;
+  maker: boolean;
+  reduceOnly: boolean;
+  time: number;
+};
+
+const FILLS_CAP = 2000;
+
+// Open trades are keyed by symbol and side so a hedge-mode account can hold both legs of a symbol
+export function tradeKey(symbol: string, side: 'LONG' | 'SHORT'): string {
+  return `${symbol}:${side}`;
+}
+
+export async function getOpenTrades(env: LedgerEnv, url: URL): Promise<Record<string, OpenTrade>> {
+  const stored = (await kvGetJson<Record<string, OpenTrade>>(env, url, '/vibe_open_trades.json', {})) || {};
+  // Maps written before hedge-mode support were keyed by symbol alone
+  const map: Record<string, OpenTrade> = {};
+  for (const t of Object.values(stored)) if (t?.symbol) map[tradeKey(t.symbol, t.side)] = t;
+  return map;
+}
+
+// The leg a one-way account holds on a symbol, or the given side's leg in hedge mode
+export function tradeOn(map: Record<string, OpenTrade>, symbol: string, side?: 'LONG' | 'SHORT'): OpenTrade | undefined {
+  return side ? map[tradeKey(symbol, side)] : Object.values(map).find(t => t.symbol === symbol);
+}
+
+export async function setOpenTrades(env: LedgerEnv, url: URL, map: Record<string, OpenTrade>) {
+  await kvPutJson(env, url, '/vibe_open_trades.json', map);
+}
+
+export function netPnl(t: Pick<ClosedTrade, 'pnlUsd' | 'fundingUsd' | 'feesUsd'>): number {
+  return t.pnlUsd + (t.fundingUsd || 0) - (t.feesUsd || 0);
+}
+
+// A trade closed by a known order is booked once, whichever of the tick or the stream sees it first
+export async function appendClosedTrade(env: LedgerEnv, url: URL, trade: ClosedTrade) {
+  const list = await kvGetJson<ClosedTrade[]>(env, url, '/vibe_trades.json', []);
+  if (trade.exitOrderId && list.some(t => t.symbol === trade.symbol && t.exitOrderId === trade.exitOrderId)) return;
+  list.push({ ...trade, netPnlUsd: netPnl(trade) });
+  // Keep last 2000 trades instead of 200 to preserve history (especially high-PnL trades)
+  if (list.length > 2000) list.splice(0, list.length - 2000);
+  await kvPutJson(env, url, '/vibe_trades.json', list);
+}
+
+// Returns false when the fill was already recorded (stream replays after a reconnect)
+export async function appendFill(env: LedgerEnv, url: URL, fill: Fill): Promise<boolean> {
+  const list = await kvGetJson<Fill[]>(env, url, '/vibe_fills.json', []);
+  if (list.some(f => f.symbol === fill.symbol && f.id === fill.id)) return false;
+  list.push(fill);
+  if (list.length > FILLS_CAP) list.splice(0, list.length - FILLS_CAP);
+  await kvPutJson(env, url, '/vibe_fills.json', list);
+  return true;
+}
@@ -0,0 +1,267 @@
+// Durable Object subscribed to the kline_1m, markPrice and bookTicker streams for the trading
+// universe. It keeps rolling candle buffers in memory and hands the tick one snapshot of all
+// symbols, so indicators and prices come from the stream instead of per-symbol REST polling.
+
+import { createAsterClient } from './aster';
+import type { AsterClient, AsterEnv, AsterKline, AsterMarketStreamEvent } from './aster';
+
+export type MarketStreamEnv = AsterEnv & {
+  ASTER_WS_BASE?: string; // default wss://fstream.asterdex.com
+  MARKET_STREAM?: DurableObjectNamespace;
+};
+
+export type MarketSymbolSnapshot = {
+  klines: AsterKline[]; // 1m bars, oldest first; the last one is still forming
+  lastPrice: number | null; // close of the forming bar
+  markPrice: number | null;
+  fundingRate: number | null;
+  nextFundingTime: number | null;
+  bid: number | null;
+  ask: number | null;
+  updatedAt: number; // last event of any kind for the symbol
+  fresh: boolean; // stream is current and holds at least the requested bars
+};
+
+export type MarketSnapshot = {
+  at: number;
+  connected: boolean;
+  lastError: string | null;
+  symbols: Record<string, MarketSymbolSnapshot>;
+};
+
+type SymbolBuffer = Omit<MarketSymbolSnapshot, 'klines' | 'fresh'> & { bars: AsterKline[] };
+
+const BUFFER_BARS = 240;
+const STALE_MS = 10_000; // markPrice pushes every second, so silence this long means the feed is down
+const IDLE_MS = 15 * 60 * 1000; // disconnect once the tick stops asking
+const WATCHDOG_MS = 60_000;
+const PRICE_MAX_AGE_MS = 5_000;
+
+function barFromEvent(k: { t: number; T: number; o: string; h: string; l: string; c: string; v: string; n: number; q: string; V: string; Q: string }): AsterKline {
+  return [k.t, k.o, k.h, k.l, k.c, k.v, k.T, k.q, k.n, k.V, k.Q, '0'];
+}
+
+// Insert or replace by open time, keeping the buffer ordered and capped
+function upsertBar(bars: AsterKline[], bar: AsterKline) {
+  const last = bars[bars.length - 1];
+  if (!last || bar[0] > last[0]) bars.push(bar);
+  else if (bar[0] === last[0]) bars[bars.length - 1] = bar;
+  else {
+    const i = bars.findIndex(b => b[0] === bar[0]);
+    if (i >= 0) bars[i] = bar;
+  }
+  if (bars.length > BUFFER_BARS) bars.splice(0, bars.length - BUFFER_BARS);
+}
+
+// Quiet symbols get no kline event until they trade; carry the last close into the minutes since
+function barsUpTo(bars: AsterKline[], now: number): AsterKline[] {
+  const out = bars.slice();
+  const minute = Math.floor(now / 60000) * 60000;
+  let last = out[out.length - 1];
+  while (last && last[0] < minute) {
+    const t = last[0] + 60000;
+    const c = last[4];
+    last = [t, c, c, c, c, '0', t + 59999, '0', 0, '0', '0', '0'];
+    out.push(last);
+  }
+  return out.slice(-BUFFER_BARS);
+}
+
+function emptyBuffer(): SymbolBuffer {
+  return { bars: [], lastPrice: null, markPrice: null, fundingRate: null, nextFundingTime: null, bid: null, ask: null, updatedAt: 0 };
+}
+
+// Snapshot of the whole universe for one tick, with REST fallbacks for symbols the stream cannot serve.
+// The snapshot is read once and reused; prices for orders re-read it when it is older than a few seconds.
+export function createMarketData(env: MarketStreamEnv, url: URL, universe: string[], aster: Pick<AsterClient, 'klines'>, klineLimit = 120) {
+  let snap: MarketSnapshot | null = null;
+  let loadedAt = 0;
+  const used = { stream: 0, rest: 0 };
+
+  async function load(maxAgeMs: number): Promise<MarketSnapshot | null> {
+    if (snap && Date.now() - loadedAt <= maxAgeMs) return snap;
+    if (!env.MARKET_STREAM) return null;
+    try {
+      const stub = env.MARKET_STREAM.get(env.MARKET_STREAM.idFromName('market'));
+      const r = await stub.fetch('https://market-stream/snapshot', { method: 'POST', body: JSON.stringify({ origin: url.origin, universe, limit: klineLimit }) });
+      if (r.ok) { snap = (await r.json()) as MarketSnapshot; loadedAt = Date.now(); }
+    } catch {}
+    return snap;
+  }
+
+  return {
+    snapshot: () => load(Infinity),
+    // Last traded price from the stream, or the REST ticker at the caller's priority
+    price: async (symbol: string, via: Pick<AsterClient, 'tickerPrice'>): Promise<number | null> => {
+      const s = (await load(PRICE_MAX_AGE_MS))?.symbols[symbol];
+      if (s?.fresh && s.lastPrice) { used.stream++; return s.lastPrice; }
+      used.rest++;
+      const p = Number((await via.tickerPrice(symbol).catch(() => null))?.price || 0);
+      return p > 0 && Number.isFinite(p) ? p : null;
+    },
+    klines: async (symbol: string, limit = klineLimit): Promise<AsterKline[] | null> => {
+      const s = (await load(Infinity))?.symbols[symbol];
+      if (s?.fresh && s.klines.length >= limit) { used.stream++; return s.klines.slice(-limit); }
+      used.rest++;
+      return await aster.klines(symbol, '1m', limit).catch(() => null);
+    },
+    // Best bid and ask from the bookTicker stream, or the REST book ticker at the caller's priority
+    book: async (symbol: string, via: Pick<AsterClient, 'bookTicker'>): Promise<{ bid: number; ask: number } | null> => {
+      const s = (await load(PRICE_MAX_AGE_MS))?.symbols[symbol];
+      if (s?.fresh && s.bid && s.ask) { used.stream++; return { bid: s.bid, ask: s.ask }; }
+      used.rest++;
+      const b = await via.bookTicker(symbol).catch(() => null);
+      const bid = Number(b?.bidPrice || 0);
+      const ask = Number(b?.askPrice || 0);
+      return bid > 0 && ask >= bid ? { bid, ask } : null;
+    },
+    // Funding rate and next funding time from the markPrice stream; one premiumIndex call covers the rest
+    funding: async (symbols: string[], via: Pick<AsterClient, 'premiumIndex'>): Promise<Record<string, { rate: number; nextFundingTime: number }>> => {
+      const snap = await load(Infinity);
+      const out: Record<string, { rate: number; nextFundingTime: number }> = {};
+      const missing: string[] = [];
+      for (const sym of symbols) {
+        const s = snap?.symbols[sym];
+        if (s?.fresh && s.fundingRate !== null && s.nextFundingTime) { used.stream++; out[sym] = { rate: s.fundingRate, nextFundingTime: s.nextFundingTime }; }
+        else missing.push(sym);
+      }
+      if (!missing.length) return out;
+      used.rest++;
+      const rows = await via.premiumIndex().catch(() => null);
+      for (const r of Array.isArray(rows) ? rows : []) {
+        const rate = Number(r.lastFundingRate);
+        if (missing.includes(r.symbol) && Number.isFinite(rate) && r.nextFundingTime > 0) out[r.symbol] = { rate, nextFundingTime: Number(r.nextFundingTime) };
+      }
+      return out;
+    },
+    usage: () => ({ ...used })
+  };
+}
+
+export type MarketData = ReturnType<typeof createMarketData>;
+
+export class AsterMarketStream implements DurableObject {
+  private ws: WebSocket | null = null;
+  private subscribed = ''; // universe the socket was opened for
+  private buffers: Record<string, SymbolBuffer> = {};
+  private lastMessageAt = 0;
+  private lastRequestAt = 0;
+  private lastError: string | null = null;
+
+  constructor(private state: DurableObjectState, private env: MarketStreamEnv) {}
+
+  async fetch(req: Request): Promise<Response> {
+    const body: any = await req.json().catch(() => ({}));
+    const universe: string[] = Array.isArray(body?.universe) ? body.universe.map((s: any) => String(s).toUpperCase()).filter(Boolean) : [];
+    const limit = Math.max(1, Math.min(BUFFER_BARS, Number(body?.limit) || 120));
+    this.lastRequestAt = Date.now();
+    if (typeof body?.origin === 'string' && body.origin && universe.length) {
+      await this.state.storage.put('origin', body.origin);
+      await this.state.storage.put('universe', universe);
+      await this.ensure(new URL(body.origin), universe);
+    }
+    return new Response(JSON.stringify(this.snapshot(universe.length ? universe : Object.keys(this.buffers), limit)), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  // Watchdog: reconnect a silent feed, and let the socket go once nobody asks for snapshots
+  async alarm() {
+    if (Date.now() - this.lastRequestAt > IDLE_MS) {
+      this.close('idle');
+      return;
+    }
+    const origin = await this.state.storage.get<string>('origin');
+    const universe = (await this.state.storage.get<string[]>('universe')) || [];
+    if (origin && universe.length && (!this.ws || Date.now() - this.lastMessageAt > STALE_MS)) {
+      this.close('stale');
+      await this.ensure(new URL(origin), universe);
+    }
+    await this.state.storage.setAlarm(Date.now() + WATCHDOG_MS);
+  }
+
+  private close(reason: string) {
+    const ws = this.ws;
+    this.ws = null;
+    this.subscribed = '';
+    if (ws) { try { ws.close(1000, reason); } catch {} }
+  }
+
+  private async ensure(url: URL, universe: string[]) {
+    const key = [...universe].sort().join(',');
+    if (this.ws && this.subscribed === key) return;
+    this.close('resubscribe');
+    // Seed history over REST first so indicators have a full window on the first snapshot
+    const aster = createAsterClient(this.env, url);
+    await Promise.all(universe.map(async sym => {
+      const buf = (this.buffers[sym] ||= emptyBuffer());
+      if (buf.bars.length >= BUFFER_BARS && Date.now() - buf.updatedAt < STALE_MS) return;
+      const rows = await aster.low.klines(sym, '1m', BUFFER_BARS).catch(() => null);
+      if (!Array.isArray(rows)) return;
+      for (const row of rows) upsertBar(buf.bars, row);
+      buf.lastPrice = Number(buf.bars[buf.bars.length - 1]?.[4]) || buf.lastPrice;
+    }));
+    await aster.persistRate();
+    for (const sym of Object.keys(this.buffers)) if (!universe.includes(sym)) delete this.buffers[sym];
+
+    try {
+      const streams = universe.flatMap(s => [`${s.toLowerCase()}@kline_1m`, `${s.toLowerCase()}@markPrice@1s`, `${s.toLowerCase()}@bookTicker`]);
+      const base = (this.env.ASTER_WS_BASE || 'wss://fstream.asterdex.com').replace(/^ws/, 'http').replace(/\/$/, '');
+      const res = await fetch(`${base}/stream?streams=${streams.join('/')}`, { headers: { Upgrade: 'websocket' } });
+      const ws = res.webSocket;
+      if (!ws) throw new Error(`websocket upgrade failed: ${res.status}`);
+      ws.accept();
+      this.ws = ws;
+      this.subscribed = key;
+      this.lastMessageAt = Date.now();
+      this.lastError = null;
+      ws.addEventListener('message', (ev: MessageEvent) => {
+        this.lastMessageAt = Date.now();
+        try {
+          const msg = JSON.parse(typeof ev.data === 'string' ? ev.data : new TextDecoder().decode(ev.data as ArrayBuffer));
+          this.apply((msg?.data ?? msg) as AsterMarketStreamEvent);
+        } catch {}
+      });
+      const dropped = (reason: string) => {
+        if (this.ws !== ws) return;
+        this.ws = null;
+        this.subscribed = '';
+        this.lastError = reason;
+      };
+      ws.addEventListener('close', (ev: CloseEvent) => dropped(`closed ${ev.code}${ev.reason ? ` ${ev.reason}` : ''}`));
+      ws.addEventListener('error', () => dropped('socket error'));
+    } catch (e: any) {
+      this.lastError = String(e?.message || e);
+    }
+    if (!(await this.state.storage.getAlarm())) await this.state.storage.setAlarm(Date.now() + WATCHDOG_MS);
+  }
+
+  private apply(ev: AsterMarketStreamEvent) {
+    const buf = ev?.s ? this.buffers[ev.s] : undefined;
+    if (!buf) return;
+    buf.updatedAt = Date.now();
+    if (ev.e === 'kline') {
+      upsertBar(buf.bars, barFromEvent(ev.k));
+      buf.lastPrice = Number(ev.k.c) || buf.lastPrice;
+    } else if (ev.e === 'markPriceUpdate') {
+      buf.markPrice = Number(ev.p) || buf.markPrice;
+      buf.fundingRate = Number.isFinite(Number(ev.r)) ? Number(ev.r) : buf.fundingRate;
+      buf.nextFundingTime = ev.T || buf.nextFundingTime;
+    } else if (ev.e === 'bookTicker') {
+      buf.bid = Number(ev.b) || buf.bid;
+      buf.ask = Number(ev.a) || buf.ask;
+    }
+  }
+
+  private snapshot(universe: string[], limit: number): MarketSnapshot {
+    const now = Date.now();
+    const live = !!this.ws && now - this.lastMessageAt < STALE_MS;
+    const symbols: Record<string, MarketSymbolSnapshot> = {};
+    for (const sym of universe) {
+      const buf = this.buffers[sym];
+      if (!buf) continue;
+      const { bars, ...rest } = buf;
+      const klines = barsUpTo(bars, now).slice(-limit);
+      symbols[sym] = { ...rest, klines, fresh: live && now - buf.updatedAt < STALE_MS && klines.length >= limit };
+    }
+    return { at: now, connected: !!this.ws, lastError: this.lastError, symbols };
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIZING, netIntent, positionSize, sizingPolicy } from './sizing';
+
+describe('netIntent', () => {
+  it('opens from flat', () => {
+    expect(netIntent('LONG', 0, 2, 0.001)).toEqual({ kind: 'open', side: 'BUY', qty: 2, heldQty: 0, heldSide: undefined, targetQty: 2 });
+    expect(netIntent('SHORT', 0, 2, 0.001)).toMatchObject({ kind: 'open', side: 'SELL', qty: 2 });
+  });
+
+  it('adds up to the target on the same side', () => {
+    expect(netIntent('LONG', 2, 2.25, 0.001)).toMatchObject({ kind: 'add', side: 'BUY', qty: 0.25, heldQty: 2, heldSide: 'LONG' });
+    expect(netIntent('SHORT', -2, 2.25, 0.001)).toMatchObject({ kind: 'add', side: 'SELL', qty: 0.25, heldSide: 'SHORT' });
+  });
+
+  it('trims down to the target with the opposite side', () => {
+    expect(netIntent('LONG', 2, 1.75, 0.001)).toMatchObject({ kind: 'reduce', side: 'SELL', qty: 0.25 });
+    expect(netIntent('SHORT', -2, 1.75, 0.001)).toMatchObject({ kind: 'reduce', side: 'BUY', qty: 0.25 });
+  });
+
+  it('holds a change under NET_HOLD_PCT of the held size', () => {
+    expect(netIntent('LONG', 4, 4.25, 0.001)).toMatchObject({ kind: 'hold', qty: 0 });
+    expect(netIntent('LONG', 4, 3.75, 0.001)).toMatchObject({ kind: 'hold', qty: 0 });
+    // Exactly 10% is acted on
+    expect(netIntent('LONG', 2.5, 2.75, 0.001)).toMatchObject({ kind: 'add', qty: 0.25 });
+  });
+
+  it('holds a change under one lot', () => {
+    expect(netIntent('LONG', 1, 1.25, 0.5)).toMatchObject({ kind: 'hold', qty: 0 });
+    expect(netIntent('LONG', 1, 1.5, 0.5)).toMatchObject({ kind: 'add', qty: 0.5 });
+  });
+
+  it('flips past flat from the other side in one order', () => {
+    expect(netIntent('LONG', -1, 2, 0.001)).toEqual({ kind: 'flip', side: 'BUY', qty: 3, heldQty: 1, heldSide: 'SHORT', targetQty: 2 });
+    expect(netIntent('SHORT', 1.5, 0.5, 0.001)).toMatchObject({ kind: 'flip', side: 'SELL', qty: 2, heldSide: 'LONG' });
+  });
+});
+
+describe('positionSize', () => {
+  const cfg = { maxRiskPerTradeUsd: 5000, leverageCap: 5 };
+  const fixed = sizingPolicy({ mode: 'fixed_fractional', riskPct: 1, atrMultiple: 2 });
+
+  it('defaults to half the equity capped at maxRiskPerTradeUsd', () => {
+    expect(DEFAULT_SIZING.mode).toBe('notional');
+    expect(positionSize(DEFAULT_SIZING, cfg, 1000, 100, 95, 2)).toEqual({ notionalUsd: 500, basis: 'notional' });
+    expect(positionSize(DEFAULT_SIZING, { ...cfg, maxRiskPerTradeUsd: 300 }, 1000, 100, 95, 2)).toEqual({ notionalUsd: 300, basis: 'notional' });
+  });
+
+  it('sizes the loss at the stop to riskPct of equity', () => {
+    // 1% of 10000 over a 5.00 stop distance is 20 units at 100
+    expect(positionSize(fixed, cfg, 10000, 100, 95, 2)).toEqual({ notionalUsd: 2000, basis: 'stop', riskUsd: 100, stopDistance: 5 });
+  });
+
+  it('falls back to the ATR distance without a stop', () => {
+    expect(positionSize(fixed, cfg, 10000, 100, undefined, 2.5)).toMatchObject({ notionalUsd: 2000, basis: 'atr', stopDistance: 5 });
+    const atr = sizingPolicy({ mode: 'atr', riskPct: 1, atrMultiple: 2 });
+    expect(positionSize(atr, cfg, 10000, 100, 99, 2.5)).toMatchObject({ basis: 'atr', stopDistance: 5 });
+  });
+
+  it('falls back to the flat size without a distance or equity', () => {
+    expect(positionSize(fixed, cfg, 10000, 100, undefined, null)).toEqual({ notionalUsd: 5000, basis: 'notional' });
+    expect(positionSize(fixed, cfg, 0, 100, 95, 2)).toEqual({ notionalUsd: 0, basis: 'notional' });
+  });
+
+  it('caps the notional at maxRiskPerTradeUsd', () => {
+    expect(positionSize(fixed, { ...cfg, maxRiskPerTradeUsd: 1500 }, 10000, 100, 95, 2)).toEqual({ notionalUsd: 1500, basis: 'stop', riskUsd: 75, stopDistance: 5, capped: 'maxRiskPerTradeUsd' });
+  });
+
+  it('caps the notional at equity times leverageCap', () => {
+    // A 0.50 stop asks for 2000 of notional; 1x on 1000 of equity allows 1000
+    expect(positionSize(fixed, { maxRiskPerTradeUsd: 5000, leverageCap: 1 }, 1000, 100, 99.5, 2)).toMatchObject({ notionalUsd: 1000, capped: 'leverage' });
+    expect(positionSize(fixed, { maxRiskPerTradeUsd: 0, leverageCap: 1 }, 1000, 100, 99.5, 2)).toMatchObject({ notionalUsd: 1000, capped: 'leverage' });
+  });
+});
@@ -0,0 +1,88 @@
+// Pure sizing math shared by the cron tick: what a decision's entry is worth and what order moves
+// the live position to it. Nothing here touches KV or the exchange.
+
+// ---------- Net position intents ----------
+// A decision names a side and a target size. What is sent depends on what the exchange already
+// holds on that leg (the whole symbol in one-way mode): nothing held opens, the same side adds up
+// to the target or trims down to it, and the other side closes and flips past flat. A change
+// smaller than one lot or NET_HOLD_PCT of the held size is left alone.
+export type NetIntent = {
+  kind: 'open' | 'add' | 'reduce' | 'close' | 'flip' | 'hold';
+  side: 'BUY' | 'SELL';
+  qty: number;                   // order quantity
+  heldQty: number;               // live position on the leg before the order
+  heldSide?: 'LONG' | 'SHORT';
+  targetQty: number;
+};
+
+export const NET_HOLD_PCT = 10;
+
+// `held` is the signed position amount: positive long, negative short
+export function netIntent(action: 'LONG' | 'SHORT', held: number, targetQty: number, minQty: number): NetIntent {
+  const toward: NetIntent['side'] = action === 'LONG' ? 'BUY' : 'SELL';
+  const away: NetIntent['side'] = action === 'LONG' ? 'SELL' : 'BUY';
+  const heldQty = Math.abs(held);
+  const heldSide: NetIntent['heldSide'] = held > 0 ? 'LONG' : held < 0 ? 'SHORT' : undefined;
+  const base = { heldQty, heldSide, targetQty };
+  if (!heldSide) return { ...base, kind: 'open', side: toward, qty: targetQty };
+  if (heldSide !== action) return { ...base, kind: 'flip', side: toward, qty: heldQty + targetQty };
+  const diff = targetQty - heldQty;
+  if (Math.abs(diff) < Math.max(minQty, (heldQty * NET_HOLD_PCT) / 100)) return { ...base, kind: 'hold', side: toward, qty: 0 };
+  return diff > 0 ? { ...base, kind: 'add', side: toward, qty: diff } : { ...base, kind: 'reduce', side: away, qty: -diff };
+}
+
+// ---------- Position sizing ----------
+// 'notional', the default, is the flat size of half the equity, capped at maxRiskPerTradeUsd.
+// 'fixed_fractional' and 'atr' size entries so the loss at the stop is riskPct of equity.
+// 'fixed_fractional' takes the stop distance from the plan's stop-loss and falls back to
+// atrMultiple × atr14 (1m candles) without one; 'atr' always uses the ATR distance. In every mode
+// maxRiskPerTradeUsd caps the entry notional, as it always has, and so does equity × leverageCap;
+// exposure caps and leverage brackets apply at entry.
+export type SizingPolicy = {
+  mode: 'fixed_fractional' | 'atr' | 'notional';
+  riskPct: number;       // equity lost at the stop, in percent
+  atrMultiple: number;   // stop distance in atr14 multiples
+};
+
+export const DEFAULT_SIZING: SizingPolicy = { mode: 'notional', riskPct: 0.5, atrMultiple: 2 };
+
+export function sizingPolicy(input: any, base: SizingPolicy = DEFAULT_SIZING): SizingPolicy {
+  return {
+    mode: ['fixed_fractional', 'atr', 'notional'].includes(input?.mode) ? input.mode : base.mode,
+    riskPct: Math.max(0.01, Math.min(10, Number(input?.riskPct ?? base.riskPct) || base.riskPct)),
+    atrMultiple: Math.max(0.1, Math.min(20, Number(input?.atrMultiple ?? base.atrMultiple) || base.atrMultiple))
+  };
+}
+
+export type PositionSize = {
+  notionalUsd: number;
+  basis: 'stop' | 'atr' | 'notional';
+  riskUsd?: number;        // loss at the stop distance
+  stopDistance?: number;   // price distance the size was computed from
+  capped?: 'leverage' | 'maxRiskPerTradeUsd';
+};
+
+// The config fields positionSize reads
+export type SizingLimits = { maxRiskPerTradeUsd: number; leverageCap: number };
+
+export function positionSize(policy: SizingPolicy, cfg: SizingLimits, equityUsd: number, price: number, stopLoss: number | undefined, atr: number | null): PositionSize {
+  const flat: PositionSize = { notionalUsd: Math.max(0, Math.min(cfg.maxRiskPerTradeUsd, Math.floor(equityUsd * 0.50))), basis: 'notional' };
+  if (policy.mode === 'notional' || !(equityUsd > 0) || !(price > 0)) return flat;
+  const stopDistance = typeof stopLoss === 'number' && stopLoss > 0 ? Math.abs(price - stopLoss) : 0;
+  const atrDistance = typeof atr === 'number' && atr > 0 ? atr * policy.atrMultiple : 0;
+  const basis = policy.mode === 'fixed_fractional' && stopDistance > 0 ? 'stop' : 'atr';
+  const distance = basis === 'stop' ? stopDistance : atrDistance;
+  if (!(distance > 0)) return flat;
+  const raw = (equityUsd * policy.riskPct / 100 / distance) * price;
+  const leverageMax = equityUsd * Math.max(1, Number(cfg.leverageCap) || 1);
+  const configMax = cfg.maxRiskPerTradeUsd > 0 ? cfg.maxRiskPerTradeUsd : Infinity;
+  const notionalUsd = Math.floor(Math.min(raw, leverageMax, configMax));
+  const capped = raw <= Math.min(leverageMax, configMax) ? undefined : configMax < leverageMax ? 'maxRiskPerTradeUsd' as const : 'leverage' as const;
+  return {
+    notionalUsd,
+    basis,
+    riskUsd: Math.round((notionalUsd / price) * distance * 100) / 100,
+    stopDistance: distance,
+    ...(capped ? { capped } : {})
+  };
+}
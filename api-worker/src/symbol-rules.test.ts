@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { checkOrder, minMarketQty, roundPrice, roundQty } from './symbol-rules';
+import type { SymbolRules } from './symbol-rules';
+
+const rules: SymbolRules = {
+  symbol: 'BTCUSDT',
+  status: 'TRADING',
+  pricePrecision: 1,
+  quantityPrecision: 3,
+  tickSize: 0.1,
+  minPrice: 1,
+  maxPrice: 1_000_000,
+  stepSize: 0.001,
+  minQty: 0.001,
+  maxQty: 1000,
+  marketStepSize: 0.001,
+  marketMinQty: 0.001,
+  marketMaxQty: 100,
+  minNotional: 5,
+  multiplierUp: 1.05,
+  multiplierDown: 0.95,
+  maxNumOrders: 200,
+  maxNumAlgoOrders: 10
+};
+
+const reason = (r: ReturnType<typeof checkOrder>) => (r.ok ? null : r.reason);
+
+describe('grid rounding', () => {
+  const tenths = { ...rules, stepSize: 0.1, marketStepSize: 0.1 };
+
+  it('keeps a quantity that is already on the grid despite float error', () => {
+    expect(roundQty(tenths, 0.3, false)).toBe(0.3);
+    expect(roundQty(tenths, 0.3, false, 'up')).toBe(0.3);
+    expect(roundQty(tenths, 0.7, true)).toBe(0.7);
+  });
+
+  it('rounds down by default and up on request', () => {
+    expect(roundQty(tenths, 0.29, false)).toBe(0.2);
+    expect(roundQty(tenths, 0.21, false, 'up')).toBe(0.3);
+  });
+
+  it('rounds prices to the nearest tick', () => {
+    expect(roundPrice(rules, 30000.04)).toBe(30000);
+    expect(roundPrice(rules, 30000.06)).toBe(30000.1);
+    expect(roundPrice(rules, 30000.06, 'down')).toBe(30000);
+  });
+
+  it('reads decimals from steps written in exponent form', () => {
+    const tiny = { ...rules, tickSize: 1e-7, minPrice: 0, minNotional: 0 };
+    expect(String(1e-7)).toBe('1e-7');
+    expect(roundPrice(tiny, 0.00001234567)).toBe(0.0000123);
+    const r = checkOrder(tiny, { symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 1, price: 0.0000123 }, 0);
+    expect(r.ok && r.params.price).toBe('0.0000123');
+  });
+
+  it('leaves values alone without a step', () => {
+    expect(roundQty({ ...rules, stepSize: 0 }, 0.12345, false)).toBe(0.12345);
+  });
+
+  it('sizes the smallest market quantity from minQty and minNotional', () => {
+    expect(minMarketQty(rules, 30000)).toBe(0.001);
+    expect(minMarketQty(rules, 100)).toBe(0.05);
+    expect(minMarketQty(rules, 3)).toBe(1.667);
+  });
+});
+
+describe('checkOrder', () => {
+  const market = { symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET' } as const;
+
+  it('formats an accepted order on the grid', () => {
+    const r = checkOrder(rules, { ...market, quantity: 0.3 }, 30000);
+    expect(r).toEqual({ ok: true, params: { ...market, quantity: '0.300' } });
+  });
+
+  it('refuses entries without rules but lets reducing orders through', () => {
+    expect(reason(checkOrder(null, { ...market, quantity: 1 }, 30000))).toBe('no exchange rules for BTCUSDT');
+    const close = { symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', stopPrice: 29000.04, quantity: 0.1234, reduceOnly: 'true' } as const;
+    expect(checkOrder(null, close, 30000)).toEqual({ ok: true, params: close });
+    expect(checkOrder(null, { symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 1, positionSide: 'SHORT' }, 30000).ok).toBe(true);
+    expect(checkOrder(null, { symbol: 'BTCUSDT', side: 'SELL', type: 'TAKE_PROFIT_MARKET', stopPrice: 31000, closePosition: 'true' }, 30000).ok).toBe(true);
+  });
+
+  it('refuses a symbol that is not trading', () => {
+    expect(reason(checkOrder({ ...rules, status: 'SETTLING' }, { ...market, quantity: 1 }, 30000))).toBe('BTCUSDT is SETTLING');
+  });
+
+  it('refuses quantities off the filters', () => {
+    expect(reason(checkOrder(rules, { ...market, quantity: 0 }, 30000))).toBe('quantity 0 must be positive');
+    expect(reason(checkOrder(rules, { ...market, quantity: 0.0015 }, 30000))).toBe('quantity 0.0015 is not a multiple of step 0.001');
+    expect(reason(checkOrder({ ...rules, marketMinQty: 0.01 }, { ...market, quantity: 0.005 }, 30000))).toBe('quantity 0.005 is below minQty 0.01');
+    expect(reason(checkOrder(rules, { ...market, quantity: 150 }, 30000))).toBe('quantity 150 is above maxQty 100');
+    // Limit orders use LOT_SIZE rather than MARKET_LOT_SIZE
+    expect(checkOrder(rules, { ...market, type: 'LIMIT', quantity: 150, price: 30000 }, 30000).ok).toBe(true);
+  });
+
+  it('checks minNotional on entries only', () => {
+    expect(reason(checkOrder(rules, { ...market, quantity: 0.001 }, 3000))).toBe('notional 3.00 is below minNotional 5');
+    expect(checkOrder(rules, { ...market, side: 'SELL', quantity: 0.001, reduceOnly: 'true' }, 3000).ok).toBe(true);
+    expect(checkOrder(rules, { ...market, side: 'SELL', quantity: 0.001, positionSide: 'LONG' }, 3000).ok).toBe(true);
+  });
+
+  it('refuses prices off the filters', () => {
+    const limit = { symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 0.01 } as const;
+    expect(reason(checkOrder(rules, { ...limit, price: -1 }, 30000))).toBe('price -1 must be positive');
+    expect(reason(checkOrder(rules, { ...limit, price: 30000.05 }, 30000))).toBe('price 30000.05 is not a multiple of tick 0.1');
+    expect(reason(checkOrder({ ...rules, minPrice: 1000 }, { ...limit, quantity: 1, price: 500 }, 0))).toBe('price 500 is below minPrice 1000');
+    expect(reason(checkOrder({ ...rules, maxPrice: 50000 }, { ...limit, price: 60000 }, 0))).toBe('price 60000 is above maxPrice 50000');
+    const stop = { symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', quantity: 0.01, reduceOnly: 'true' } as const;
+    expect(reason(checkOrder(rules, { ...stop, stopPrice: 29000.01 }, 30000))).toBe('stopPrice 29000.01 is not a multiple of tick 0.1');
+  });
+
+  it('refuses limit prices outside PERCENT_PRICE of the mark', () => {
+    const limit = { symbol: 'BTCUSDT', type: 'LIMIT', quantity: 0.01 } as const;
+    expect(reason(checkOrder(rules, { ...limit, side: 'BUY', price: 31600 }, 30000))).toBe('price 31600 is above 1.05x mark 30000');
+    expect(reason(checkOrder(rules, { ...limit, side: 'SELL', price: 28400 }, 30000))).toBe('price 28400 is below 0.95x mark 30000');
+    expect(checkOrder(rules, { ...limit, side: 'BUY', price: 31400 }, 30000).ok).toBe(true);
+  });
+
+  it('refuses a conditional order past MAX_NUM_ALGO_ORDERS', () => {
+    const stop = { symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', stopPrice: 29000, quantity: 0.01, reduceOnly: 'true' } as const;
+    expect(reason(checkOrder(rules, stop, 30000, 10))).toBe('10 conditional orders open on BTCUSDT, limit 10');
+    expect(checkOrder(rules, stop, 30000, 9).ok).toBe(true);
+    expect(checkOrder(rules, { ...market, quantity: 0.01 }, 30000, 10).ok).toBe(true);
+  });
+});
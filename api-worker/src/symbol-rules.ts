@@ -0,0 +1,208 @@
+// Per-symbol trading rules parsed from exchangeInfo filters and cached in KV.
+// Orders are rounded and checked against these before they are sent, so a
+// quantity or price the exchange would reject fails locally with a reason.
+
+import type { AsterClient, AsterEnv, AsterExchangeInfo, AsterOrderParams, AsterSymbolFilter } from './aster';
+
+export type SymbolRules = {
+  symbol: string;
+  status: string;
+  pricePrecision: number;
+  quantityPrecision: number;
+  // PRICE_FILTER (0 disables a rule)
+  tickSize: number;
+  minPrice: number;
+  maxPrice: number;
+  // LOT_SIZE, for limit and conditional orders
+  stepSize: number;
+  minQty: number;
+  maxQty: number;
+  // MARKET_LOT_SIZE, for market orders (falls back to LOT_SIZE)
+  marketStepSize: number;
+  marketMinQty: number;
+  marketMaxQty: number;
+  minNotional: number;
+  // PERCENT_PRICE against the mark price (0 disables)
+  multiplierUp: number;
+  multiplierDown: number;
+  maxNumOrders: number;
+  maxNumAlgoOrders: number;
+};
+
+export type RulesCheck =
+  | { ok: true; params: AsterOrderParams }
+  | { ok: false; reason: string };
+
+type RulesCache = { fetchedAt: number; rules: Record<string, SymbolRules> };
+
+const RULES_KEY = '/aster_symbol_rules.json';
+const RULES_TTL_MS = 60 * 60 * 1000;
+const ALGO_TYPES = ['STOP', 'STOP_MARKET', 'TAKE_PROFIT', 'TAKE_PROFIT_MARKET', 'TRAILING_STOP_MARKET'];
+
+function filterNum(f: AsterSymbolFilter | undefined, key: string): number {
+  const n = Number(f?.[key] ?? 0);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+export function parseSymbolRules(info: AsterExchangeInfo): Record<string, SymbolRules> {
+  const out: Record<string, SymbolRules> = {};
+  for (const s of info?.symbols || []) {
+    const f = (type: string) => s.filters?.find(x => x?.filterType === type);
+    const price = f('PRICE_FILTER');
+    const lot = f('LOT_SIZE');
+    const market = f('MARKET_LOT_SIZE') || lot;
+    const notional = f('MIN_NOTIONAL') || f('NOTIONAL');
+    const percent = f('PERCENT_PRICE');
+    out[s.symbol] = {
+      symbol: s.symbol,
+      status: s.status,
+      pricePrecision: s.pricePrecision,
+      quantityPrecision: s.quantityPrecision,
+      tickSize: filterNum(price, 'tickSize'),
+      minPrice: filterNum(price, 'minPrice'),
+      maxPrice: filterNum(price, 'maxPrice'),
+      stepSize: filterNum(lot, 'stepSize'),
+      minQty: filterNum(lot, 'minQty'),
+      maxQty: filterNum(lot, 'maxQty'),
+      marketStepSize: filterNum(market, 'stepSize') || filterNum(lot, 'stepSize'),
+      marketMinQty: filterNum(market, 'minQty') || filterNum(lot, 'minQty'),
+      marketMaxQty: filterNum(market, 'maxQty') || filterNum(lot, 'maxQty'),
+      minNotional: filterNum(notional, 'notional') || filterNum(notional, 'minNotional'),
+      multiplierUp: filterNum(percent, 'multiplierUp'),
+      multiplierDown: filterNum(percent, 'multiplierDown'),
+      maxNumOrders: filterNum(f('MAX_NUM_ORDERS'), 'limit'),
+      maxNumAlgoOrders: filterNum(f('MAX_NUM_ALGO_ORDERS'), 'limit')
+    };
+  }
+  return out;
+}
+
+// Loads rules once per invocation: memory, then KV within the TTL, then exchangeInfo.
+// A failed refresh falls back to the last cached copy, however old.
+export function createSymbolRules(env: AsterEnv, url: URL, aster: Pick<AsterClient, 'exchangeInfo'>) {
+  const key = new URL(RULES_KEY, url).toString();
+  let cache: RulesCache | null = null;
+
+  async function load(): Promise<RulesCache | null> {
+    if (cache && Date.now() - cache.fetchedAt < RULES_TTL_MS) return cache;
+    let stored: RulesCache | null = null;
+    try { stored = (await env.MEAP_KV?.get(key, { type: 'json' })) as RulesCache | null; } catch {}
+    if (stored && Date.now() - stored.fetchedAt < RULES_TTL_MS) return (cache = stored);
+    try {
+      const fresh: RulesCache = { fetchedAt: Date.now(), rules: parseSymbolRules(await aster.exchangeInfo()) };
+      if (Object.keys(fresh.rules).length) {
+        try { await env.MEAP_KV?.put(key, JSON.stringify(fresh)); } catch {}
+        return (cache = fresh);
+      }
+    } catch {}
+    return (cache = stored);
+  }
+
+  return {
+    get: async (symbol: string): Promise<SymbolRules | null> => (await load())?.rules[symbol] || null,
+    fetchedAt: async () => (await load())?.fetchedAt || 0,
+    // Drop the cached copy so the next lookup refetches exchangeInfo
+    invalidate: async () => {
+      cache = null;
+      try { await env.MEAP_KV?.delete(key); } catch {}
+    }
+  };
+}
+
+export type SymbolRulesService = ReturnType<typeof createSymbolRules>;
+
+// ---------- Rounding ----------
+function decimalsOf(step: number): number {
+  if (!(step > 0)) return 8;
+  const s = String(step);
+  if (s.includes('e-')) return Number(s.split('e-')[1]);
+  return (s.split('.')[1] || '').length;
+}
+
+function toGrid(value: number, step: number, mode: 'down' | 'up' | 'nearest'): number {
+  if (!(step > 0)) return value;
+  // Nudge by a fraction of a step so 0.3 / 0.1 does not floor to 2
+  const n = value / step;
+  const k = mode === 'down' ? Math.floor(n + 1e-9) : mode === 'up' ? Math.ceil(n - 1e-9) : Math.round(n);
+  return Number((k * step).toFixed(decimalsOf(step)));
+}
+
+export function roundQty(rules: SymbolRules, qty: number, market: boolean, mode: 'down' | 'up' = 'down'): number {
+  return toGrid(qty, market ? rules.marketStepSize : rules.stepSize, mode);
+}
+
+export function roundPrice(rules: SymbolRules, price: number, mode: 'down' | 'up' | 'nearest' = 'nearest'): number {
+  return toGrid(price, rules.tickSize, mode);
+}
+
+// Smallest quantity on the market-lot grid that clears both minQty and minNotional at this price
+export function minMarketQty(rules: SymbolRules, price: number): number {
+  const byNotional = rules.minNotional > 0 && price > 0 ? rules.minNotional / price : 0;
+  return roundQty(rules, Math.max(rules.marketMinQty, byNotional), true, 'up');
+}
+
+function fmt(value: number, step: number): string {
+  return value.toFixed(decimalsOf(step));
+}
+
+// ---------- Validation ----------
+// Mirrors the exchange's filter checks. On success the returned params carry quantity and
+// prices formatted on the symbol's grid; on failure the reason names the filter that failed.
+// Without rules only orders that reduce a position go out, unchecked, so protection and closes
+// are never held back by a missing exchangeInfo.
+export function checkOrder(rules: SymbolRules | null, p: AsterOrderParams, markPrice: number, openAlgoOrders = 0): RulesCheck {
+  // Hedge-mode closes carry no reduceOnly: selling the LONG leg or buying the SHORT leg reduces it
+  const closesLeg = (p.positionSide === 'LONG' && p.side === 'SELL') || (p.positionSide === 'SHORT' && p.side === 'BUY');
+  const reduces = p.reduceOnly === 'true' || p.closePosition === 'true' || closesLeg;
+  if (!rules) return reduces ? { ok: true, params: { ...p } } : { ok: false, reason: `no exchange rules for ${p.symbol}` };
+  if (rules.status && rules.status !== 'TRADING') return { ok: false, reason: `${p.symbol} is ${rules.status}` };
+  const out: AsterOrderParams = { ...p };
+  const isMarket = p.type === 'MARKET' || p.type === 'STOP_MARKET' || p.type === 'TAKE_PROFIT_MARKET';
+
+  if (p.closePosition !== 'true') {
+    const qty = Number(p.quantity);
+    if (!(qty > 0)) return { ok: false, reason: `quantity ${p.quantity} must be positive` };
+    const step = isMarket ? rules.marketStepSize : rules.stepSize;
+    const minQty = isMarket ? rules.marketMinQty : rules.minQty;
+    const maxQty = isMarket ? rules.marketMaxQty : rules.maxQty;
+    const onGrid = toGrid(qty, step, 'nearest');
+    if (step > 0 && Math.abs(onGrid - qty) > step * 1e-6) return { ok: false, reason: `quantity ${qty} is not a multiple of step ${step}` };
+    if (minQty > 0 && onGrid < minQty) return { ok: false, reason: `quantity ${onGrid} is below minQty ${minQty}` };
+    if (maxQty > 0 && onGrid > maxQty) return { ok: false, reason: `quantity ${onGrid} is above maxQty ${maxQty}` };
+    const refPrice = Number(p.price) || Number(p.stopPrice) || markPrice;
+    if (!reduces && rules.minNotional > 0 && refPrice > 0 && onGrid * refPrice < rules.minNotional) {
+      return { ok: false, reason: `notional ${(onGrid * refPrice).toFixed(2)} is below minNotional ${rules.minNotional}` };
+    }
+    out.quantity = fmt(onGrid, step);
+  }
+
+  for (const field of ['price', 'stopPrice'] as const) {
+    if (p[field] === undefined) continue;
+    const price = Number(p[field]);
+    if (!(price > 0)) return { ok: false, reason: `${field} ${p[field]} must be positive` };
+    const onGrid = roundPrice(rules, price);
+    if (rules.tickSize > 0 && Math.abs(onGrid - price) > rules.tickSize * 1e-6) return { ok: false, reason: `${field} ${price} is not a multiple of tick ${rules.tickSize}` };
+    if (rules.minPrice > 0 && onGrid < rules.minPrice) return { ok: false, reason: `${field} ${onGrid} is below minPrice ${rules.minPrice}` };
+    if (rules.maxPrice > 0 && onGrid > rules.maxPrice) return { ok: false, reason: `${field} ${onGrid} is above maxPrice ${rules.maxPrice}` };
+    out[field] = fmt(onGrid, rules.tickSize);
+  }
+
+  if (p.price !== undefined && markPrice > 0) {
+    const price = Number(out.price);
+    if (p.side === 'BUY' && rules.multiplierUp > 0 && price > markPrice * rules.multiplierUp) {
+      return { ok: false, reason: `price ${price} is above ${rules.multiplierUp}x mark ${markPrice}` };
+    }
+    if (p.side === 'SELL' && rules.multiplierDown > 0 && price < markPrice * rules.multiplierDown) {
+      return { ok: false, reason: `price ${price} is below ${rules.multiplierDown}x mark ${markPrice}` };
+    }
+  }
+
+  if (ALGO_TYPES.includes(p.type) && rules.maxNumAlgoOrders > 0 && openAlgoOrders >= rules.maxNumAlgoOrders) {
+    return { ok: false, reason: `${openAlgoOrders} conditional orders open on ${p.symbol}, limit ${rules.maxNumAlgoOrders}` };
+  }
+  return { ok: true, params: out };
+}
+
+export function isAlgoOrderType(type: string): boolean {
+  return ALGO_TYPES.includes(type);
+}
@@ -0,0 +1,483 @@
+// Durable Object holding the Aster user-data stream. It keeps a listenKey alive, consumes
+// ORDER_TRADE_UPDATE / ACCOUNT_UPDATE / MARGIN_CALL events and books fills into the trade
+// ledger as they happen, so open and closed trades carry exchange prices instead of ticker reads.
+
+import { createAsterClient, asterErrorInfo } from './aster';
+import type { AsterEnv, AsterAccountUpdate, AsterMarginCall, AsterOrderTradeUpdate, AsterUserStreamEvent } from './aster';
+import { appendClosedTrade, appendFill, appendLog, getOpenTrades, kvGetJson, kvPutJson, setOpenTrades, tradeKey, tradeOn } from './ledger';
+import type { Fill, LedgerEnv, OpenTrade } from './ledger';
+
+export type UserStreamEnv = AsterEnv & LedgerEnv & {
+  ASTER_WS_BASE?: string; // default wss://fstream.asterdex.com
+  USER_STREAM?: DurableObjectNamespace;
+};
+
+export type UserStreamStatus = {
+  connected: boolean;
+  stopped: boolean;
+  connectedAt: number | null;
+  listenKeyAt: number | null; // created or last kept alive
+  lastEventAt: number | null;
+  checkedAt: number;
+  lastError: string | null;
+};
+
+// Fill aggregates for the position currently held on a symbol (one-way mode) or on one leg (hedge mode)
+type Lifecycle = {
+  side: 'LONG' | 'SHORT';
+  net: number; // open quantity, always positive
+  entryQty: number;
+  entryNotional: number;
+  exitQty: number;
+  exitNotional: number;
+  realizedUsd: number;
+  feesUsd?: number; // commission on this lifecycle's share of each fill
+  fillIds?: number[];
+  openedAt: number;
+  entryOrderId: number; // last order that opened or added to the position
+  meta?: Pick<OpenTrade, 'provider' | 'model' | 'thesis'>;
+};
+
+const STATUS_KEY = '/vibe_user_stream.json';
+const ACCOUNT_KEY = '/vibe_account_stream.json';
+const KEEPALIVE_MS = 30 * 60 * 1000; // listenKey expires after 60 minutes without a keepalive
+const MAX_CONNECTION_MS = 23 * 60 * 60 * 1000; // the exchange drops connections at 24 hours
+const RECONNECT_MS = 5_000;
+const LIVE_WINDOW_MS = 3 * 60 * 1000;
+const QTY_EPS = 1e-9;
+
+// Quantities are summed fill by fill; trim the float noise before it reaches the ledger
+function qty8(n: number): number {
+  return Number(n.toFixed(8));
+}
+
+// The scale-out level a partial close was sent for (purpose p<n>), or 0
+function scaleOutLevel(clientOrderId: string): number {
+  const m = /^nm_[^_]+_p(\d+)_/.exec(clientOrderId);
+  return m ? Number(m[1]) : 0;
+}
+
+// The purpose segment of our client order ids (nm_<tick>_<purpose>_<symbol>)
+function purposeOf(clientOrderId: string): string {
+  return clientOrderId.startsWith('nm_') ? clientOrderId.split('_')[2] || '' : '';
+}
+
+// Close reasons by order purpose
+function reasonFor(clientOrderId: string): string {
+  if (clientOrderId.startsWith('autoclose-')) return 'Liquidation';
+  if (clientOrderId.startsWith('adl_autoclose')) return 'Auto-deleveraged';
+  const purpose = purposeOf(clientOrderId);
+  if (/^(r|n|p\d+)?sl$|^ts[ls]$/.test(purpose)) return 'Stop-loss order filled';
+  if (/^(r|n|p\d+)?tp$/.test(purpose)) return 'Take-profit order filled';
+  const level = scaleOutLevel(clientOrderId);
+  if (level) return `Take-profit level ${level}`;
+  if (purpose === 'open' || /^o(\d+|m)$/.test(purpose)) return 'Replaced by new entry';
+  if (purpose === 'rd') return 'Closed by new decision';
+  if (purpose.startsWith('adm')) return 'Admin close';
+  if (/^c\d+$/.test(purpose)) return 'Closed by tick';
+  return 'Closed on exchange';
+}
+
+function fillFromEvent(u: AsterOrderTradeUpdate): Fill {
+  const o = u.o;
+  return {
+    id: o.t,
+    orderId: o.i,
+    clientOrderId: o.c,
+    symbol: o.s,
+    side: o.S,
+    positionSide: o.ps || 'BOTH',
+    qty: Number(o.l),
+    price: Number(o.L),
+    realizedPnl: Number(o.rp || 0),
+    commission: Number(o.n || 0),
+    commissionAsset: o.N || '',
+    maker: !!o.m,
+    reduceOnly: !!o.R,
+    time: o.T || u.E
+  };
+}
+
+// The tick treats the stream as the ledger writer only while it answered a recent ping
+export function userStreamLive(status: UserStreamStatus | null): boolean {
+  return !!status && status.connected && Date.now() - status.checkedAt < LIVE_WINDOW_MS;
+}
+
+export async function getUserStreamStatus(env: LedgerEnv, url: URL): Promise<UserStreamStatus | null> {
+  return await kvGetJson<UserStreamStatus | null>(env, url, STATUS_KEY, null);
+}
+
+// One stream per KV scope; /ensure connects unless an admin stopped it
+export async function callUserStream(env: UserStreamEnv, url: URL, action: 'ensure' | 'start' | 'stop' | 'status'): Promise<UserStreamStatus | null> {
+  if (!env.USER_STREAM) return null;
+  const stub = env.USER_STREAM.get(env.USER_STREAM.idFromName(url.origin));
+  const r = await stub.fetch(`https://user-stream/${action}`, { method: 'POST', body: JSON.stringify({ origin: url.origin }) });
+  return (await r.json().catch(() => null)) as UserStreamStatus | null;
+}
+
+export class AsterUserStream implements DurableObject {
+  private ws: WebSocket | null = null;
+  private connectedAt = 0;
+  private lastEventAt = 0;
+  private lastError: string | null = null;
+  // Events are applied one at a time so KV read-modify-writes never interleave
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private state: DurableObjectState, private env: UserStreamEnv) {}
+
+  async fetch(req: Request): Promise<Response> {
+    const action = new URL(req.url).pathname.slice(1);
+    const body: any = await req.json().catch(() => ({}));
+    if (typeof body?.origin === 'string' && body.origin) await this.state.storage.put('origin', body.origin);
+    if (action === 'start') await this.state.storage.put('stopped', false);
+    if (action === 'stop') await this.stop();
+    if ((action === 'ensure' || action === 'start') && !(await this.state.storage.get<boolean>('stopped'))) await this.ensure();
+    const status = await this.writeStatus();
+    return new Response(JSON.stringify(status), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  // Keepalive every 30 minutes; also used to reconnect shortly after a dropped socket
+  async alarm() {
+    if (await this.state.storage.get<boolean>('stopped')) return;
+    const url = await this.url();
+    if (!url) return;
+    if (!this.ws) {
+      await this.ensure();
+    } else {
+      try {
+        await createAsterClient(this.env, url).critical.keepaliveUserStream();
+        await this.state.storage.put('listenKeyAt', Date.now());
+      } catch (e: any) {
+        // -1125: the key is gone, so open a new one
+        this.lastError = asterErrorInfo(e).error;
+        await this.openStream(url);
+      }
+    }
+    await this.state.storage.setAlarm(Date.now() + KEEPALIVE_MS);
+    await this.writeStatus();
+  }
+
+  private async url(): Promise<URL | null> {
+    const origin = await this.state.storage.get<string>('origin');
+    return origin ? new URL(origin) : null;
+  }
+
+  private async ensure() {
+    const url = await this.url();
+    if (!url) return;
+    if (this.ws && Date.now() - this.connectedAt < MAX_CONNECTION_MS) return;
+    await this.openStream(url);
+    if (!(await this.state.storage.getAlarm())) await this.state.storage.setAlarm(Date.now() + KEEPALIVE_MS);
+  }
+
+  private async openStream(url: URL) {
+    const aster = createAsterClient(this.env, url);
+    if (!aster.configured) { this.lastError = 'ASTER_API_BASE/API_KEY/API_SECRET missing'; return; }
+    try {
+      const { listenKey } = await aster.critical.startUserStream();
+      await this.state.storage.put('listenKeyAt', Date.now());
+      // Workers open outbound websockets with an http(s) fetch carrying the Upgrade header
+      const base = (this.env.ASTER_WS_BASE || 'wss://fstream.asterdex.com').replace(/^ws/, 'http').replace(/\/$/, '');
+      const res = await fetch(`${base}/ws/${listenKey}`, { headers: { Upgrade: 'websocket' } });
+      const ws = res.webSocket;
+      if (!ws) throw new Error(`websocket upgrade failed: ${res.status}`);
+      ws.accept();
+      const previous = this.ws;
+      this.ws = ws;
+      this.connectedAt = Date.now();
+      this.lastError = null;
+      if (previous) { try { previous.close(1000, 'reconnect'); } catch {} }
+      ws.addEventListener('message', (ev: MessageEvent) => {
+        let event: AsterUserStreamEvent | null = null;
+        try { event = JSON.parse(typeof ev.data === 'string' ? ev.data : new TextDecoder().decode(ev.data as ArrayBuffer)); } catch {}
+        if (event?.e) this.enqueue(() => this.handle(url, event!));
+      });
+      const dropped = (reason: string) => {
+        if (this.ws !== ws) return;
+        this.ws = null;
+        this.lastError = reason;
+        this.state.waitUntil(this.state.storage.setAlarm(Date.now() + RECONNECT_MS));
+      };
+      ws.addEventListener('close', (ev: CloseEvent) => dropped(`closed ${ev.code}${ev.reason ? ` ${ev.reason}` : ''}`));
+      ws.addEventListener('error', () => dropped('socket error'));
+      // Fills that happened while disconnected never arrive on the new socket
+      const since = (await this.state.storage.get<number>('lastEventAt')) || 0;
+      if (since > 0) this.enqueue(() => this.catchUp(url, since));
+      await appendLog(this.env, url, { type: 'vibe_user_stream', event: 'connected' });
+    } catch (e: any) {
+      this.lastError = asterErrorInfo(e).error;
+      await appendLog(this.env, url, { type: 'vibe_user_stream', event: 'connect_failed', error: this.lastError });
+    }
+  }
+
+  private async stop() {
+    await this.state.storage.put('stopped', true);
+    await this.state.storage.deleteAlarm();
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) { try { ws.close(1000, 'stopped'); } catch {} }
+    const url = await this.url();
+    if (url) await createAsterClient(this.env, url).critical.closeUserStream().catch(() => null);
+  }
+
+  private enqueue(task: () => Promise<void>) {
+    this.queue = this.queue.then(task).catch((e: any) => { this.lastError = String(e?.message || e); });
+  }
+
+  private async writeStatus(): Promise<UserStreamStatus> {
+    const status: UserStreamStatus = {
+      connected: !!this.ws,
+      stopped: !!(await this.state.storage.get<boolean>('stopped')),
+      connectedAt: this.ws ? this.connectedAt : null,
+      listenKeyAt: (await this.state.storage.get<number>('listenKeyAt')) || null,
+      lastEventAt: this.lastEventAt || (await this.state.storage.get<number>('lastEventAt')) || null,
+      checkedAt: Date.now(),
+      lastError: this.lastError
+    };
+    const url = await this.url();
+    if (url) await kvPutJson(this.env, url, STATUS_KEY, status);
+    return status;
+  }
+
+  private async handle(url: URL, event: AsterUserStreamEvent) {
+    this.lastEventAt = event.E || Date.now();
+    await this.state.storage.put('lastEventAt', this.lastEventAt);
+    switch (event.e) {
+      case 'ORDER_TRADE_UPDATE':
+        if (event.o.x === 'TRADE' && Number(event.o.l) > 0) await this.onFill(url, fillFromEvent(event));
+        break;
+      case 'ACCOUNT_UPDATE':
+        await this.onAccount(url, event);
+        break;
+      case 'MARGIN_CALL':
+        await this.onMarginCall(url, event);
+        break;
+      case 'listenKeyExpired':
+        await appendLog(this.env, url, { type: 'vibe_user_stream', event: 'listenKeyExpired' });
+        await this.openStream(url);
+        break;
+    }
+  }
+
+  // Replay fills for tracked symbols from REST after a gap; appendFill drops the ones already seen
+  private async catchUp(url: URL, since: number) {
+    const aster = createAsterClient(this.env, url);
+    const symbols = new Set<string>(Object.values(await getOpenTrades(this.env, url)).map(t => t.symbol));
+    for (const key of (await this.state.storage.list<Lifecycle>({ prefix: 'pos:' })).keys()) symbols.add(key.slice(4).split(':')[0]);
+    for (const symbol of symbols) {
+      const trades = await aster.userTrades({ symbol, startTime: since - 1000 }).catch(() => []);
+      // userTrades carries neither the client order id nor reduceOnly; the order does, and the
+      // purpose in the id decides whether a fill is a scale-out or trim leg or the final close
+      const orders = new Map<number, { clientOrderId: string; reduceOnly: boolean }>();
+      for (const t of trades.sort((a, b) => a.time - b.time || a.id - b.id)) {
+        if (!orders.has(t.orderId)) {
+          const o = await aster.queryOrder({ symbol, orderId: t.orderId }).catch(() => null);
+          orders.set(t.orderId, { clientOrderId: o?.clientOrderId || '', reduceOnly: !!o?.reduceOnly });
+        }
+        const order = orders.get(t.orderId)!;
+        await this.onFill(url, {
+          id: t.id,
+          orderId: t.orderId,
+          clientOrderId: order.clientOrderId,
+          symbol: t.symbol,
+          side: t.side,
+          positionSide: t.positionSide || 'BOTH',
+          qty: Number(t.qty),
+          price: Number(t.price),
+          realizedPnl: Number(t.realizedPnl || 0),
+          commission: Number(t.commission || 0),
+          commissionAsset: t.commissionAsset,
+          maker: t.maker,
+          reduceOnly: order.reduceOnly,
+          time: t.time
+        });
+      }
+    }
+    await aster.persistRate();
+  }
+
+  // Walk the symbol's position through the fill: open or add, reduce, close (booked) or flip.
+  // Hedge-mode fills name their leg, and each leg runs its own lifecycle that never flips.
+  private async onFill(url: URL, fill: Fill) {
+    if (!(await appendFill(this.env, url, fill))) return;
+    const leg = fill.positionSide === 'LONG' || fill.positionSide === 'SHORT' ? fill.positionSide : undefined;
+    const key = leg ? `pos:${fill.symbol}:${leg}` : `pos:${fill.symbol}`;
+    const open = await getOpenTrades(this.env, url);
+    const tracked = tradeOn(open, fill.symbol, leg);
+    let lc = (await this.state.storage.get<Lifecycle>(key)) || null;
+    // Seed from the ledger when the position predates the stream
+    if (!lc && tracked && tracked.qty > 0) {
+      lc = {
+        side: tracked.side,
+        net: tracked.qty,
+        entryQty: tracked.qty,
+        entryNotional: tracked.entryPrice * tracked.qty,
+        exitQty: 0,
+        exitNotional: 0,
+        realizedUsd: 0,
+        feesUsd: tracked.feesUsd || 0,
+        openedAt: tracked.openedAt,
+        entryOrderId: tracked.entryOrderId || 0
+      };
+    }
+    const fillSide = fill.side === 'BUY' ? 'LONG' : 'SHORT';
+    if (!lc && (fill.reduceOnly || (leg && fillSide !== leg))) {
+      await appendLog(this.env, url, { type: 'vibe_user_stream', event: 'untracked_fill', symbol: fill.symbol, orderId: fill.orderId, qty: fill.qty, price: fill.price });
+      return;
+    }
+    if (lc && tracked && tracked.side === lc.side) lc.meta = { provider: tracked.provider, model: tracked.model, thesis: tracked.thesis };
+
+    // Commission in a USD stablecoin counts toward fees; a flipping fill splits it by quantity
+    const feePerQty = /^USD/.test(fill.commissionAsset) && fill.qty > 0 ? fill.commission / fill.qty : 0;
+    let remaining = fill.qty;
+    if (lc && lc.side !== fillSide) {
+      const closing = Math.min(remaining, lc.net);
+      lc.net = qty8(lc.net - closing);
+      // A hedge leg cannot go past flat; only one-way positions flip with the remainder
+      remaining = leg ? 0 : qty8(remaining - closing);
+      if ((scaleOutLevel(fill.clientOrderId) || purposeOf(fill.clientOrderId) === 'rd') && lc.net > QTY_EPS) {
+        // A scale-out or trim fill is its own closed leg; the rest of the position carries on
+        await this.bookLeg(url, open, lc, fill, closing, feePerQty * closing);
+      } else {
+        lc.exitQty = qty8(lc.exitQty + closing);
+        lc.exitNotional += closing * fill.price;
+        lc.realizedUsd += fill.realizedPnl;
+        lc.feesUsd = (lc.feesUsd || 0) + feePerQty * closing;
+        lc.fillIds = [...(lc.fillIds || []), fill.id];
+        if (lc.net <= QTY_EPS) {
+          await this.book(url, open, lc, fill);
+          lc = null;
+        }
+      }
+    }
+    if (remaining > QTY_EPS) {
+      if (!lc) {
+        lc = { side: fillSide, net: 0, entryQty: 0, entryNotional: 0, exitQty: 0, exitNotional: 0, realizedUsd: 0, openedAt: fill.time, entryOrderId: fill.orderId };
+      }
+      lc.net = qty8(lc.net + remaining);
+      lc.entryQty = qty8(lc.entryQty + remaining);
+      lc.entryNotional += remaining * fill.price;
+      lc.feesUsd = (lc.feesUsd || 0) + feePerQty * remaining;
+      lc.fillIds = [...(lc.fillIds || []), fill.id];
+      lc.entryOrderId = fill.orderId;
+    }
+
+    if (lc) {
+      await this.state.storage.put(key, lc);
+      const entryPrice = lc.entryNotional / lc.entryQty;
+      open[tradeKey(fill.symbol, lc.side)] = {
+        ...open[tradeKey(fill.symbol, lc.side)],
+        symbol: fill.symbol,
+        side: lc.side,
+        qty: lc.net,
+        entryPrice,
+        notionalEntry: Math.abs(lc.net * entryPrice),
+        openedAt: lc.openedAt,
+        entryOrderId: lc.entryOrderId,
+        feesUsd: lc.feesUsd,
+        filled: true,
+        ...(leg ? { positionSide: leg } : {})
+      };
+    } else {
+      await this.state.storage.delete(key);
+    }
+    await setOpenTrades(this.env, url, open);
+  }
+
+  // The position went flat: book one closed trade from the aggregated fills and drop leftover protection
+  private async book(url: URL, open: Record<string, OpenTrade>, lc: Lifecycle, fill: Fill) {
+    const tracked = open[tradeKey(fill.symbol, lc.side)] || null;
+    const entryPrice = lc.entryNotional / lc.entryQty;
+    const exitPrice = lc.exitNotional / lc.exitQty;
+    const meta = tracked ? { provider: tracked.provider, model: tracked.model, thesis: tracked.thesis } : lc.meta;
+    await appendClosedTrade(this.env, url, {
+      symbol: fill.symbol,
+      side: lc.side,
+      qty: lc.exitQty,
+      entryPrice,
+      exitPrice,
+      notionalEntry: entryPrice * lc.exitQty,
+      notionalExit: lc.exitNotional,
+      openedAt: lc.openedAt,
+      closedAt: fill.time,
+      holdingMs: Math.max(0, fill.time - lc.openedAt),
+      pnlUsd: lc.realizedUsd,
+      grossPnlUsd: lc.realizedUsd,
+      provider: meta?.provider,
+      model: meta?.model,
+      thesis: meta?.thesis,
+      exitReason: tracked?.closeReason || reasonFor(fill.clientOrderId),
+      exitOrderId: fill.orderId,
+      source: 'fills',
+      fundingUsd: tracked?.fundingUsd,
+      feesUsd: lc.feesUsd,
+      fillIds: lc.fillIds,
+      stopHistory: tracked?.stopHistory,
+      parentId: tracked?.tradeId
+    });
+    if (!tracked) return;
+    const aster = createAsterClient(this.env, url);
+    for (const orderId of [tracked.slOrderId, tracked.tpOrderId]) {
+      if (!orderId || orderId === fill.orderId) continue;
+      await aster.critical.cancelOrder({ symbol: fill.symbol, orderId }).catch(() => null);
+    }
+    await aster.persistRate();
+    delete open[tradeKey(fill.symbol, lc.side)];
+  }
+
+  // Book `qty` of a scale-out or trim fill as a closed leg. It takes its share of the fees paid so far,
+  // so the final close is left with the rest.
+  private async bookLeg(url: URL, open: Record<string, OpenTrade>, lc: Lifecycle, fill: Fill, qty: number, exitFeesUsd: number) {
+    const tracked = open[tradeKey(fill.symbol, lc.side)] || null;
+    const entryPrice = lc.entryNotional / lc.entryQty;
+    const feeShare = (lc.feesUsd || 0) * qty / (lc.net + qty);
+    lc.feesUsd = (lc.feesUsd || 0) - feeShare;
+    const meta = tracked ? { provider: tracked.provider, model: tracked.model, thesis: tracked.thesis } : lc.meta;
+    // Each fill is a row; an order that fills in parts has several rows for its level
+    await appendClosedTrade(this.env, url, {
+      symbol: fill.symbol,
+      side: lc.side,
+      qty,
+      entryPrice,
+      exitPrice: fill.price,
+      notionalEntry: entryPrice * qty,
+      notionalExit: fill.price * qty,
+      openedAt: lc.openedAt,
+      closedAt: fill.time,
+      holdingMs: Math.max(0, fill.time - lc.openedAt),
+      pnlUsd: fill.realizedPnl,
+      grossPnlUsd: fill.realizedPnl,
+      provider: meta?.provider,
+      model: meta?.model,
+      thesis: meta?.thesis,
+      exitReason: purposeOf(fill.clientOrderId) === 'rd' ? 'Reduced by new decision' : reasonFor(fill.clientOrderId),
+      source: 'fills',
+      feesUsd: feeShare + exitFeesUsd,
+      fillIds: [fill.id],
+      parentId: tracked?.tradeId,
+      leg: scaleOutLevel(fill.clientOrderId) || undefined
+    });
+  }
+
+  private async onAccount(url: URL, u: AsterAccountUpdate) {
+    // Only changed balances and positions are sent, so merge into the last snapshot
+    const snap = await kvGetJson<{ at: number; reason: string; balances: Record<string, any>; positions: Record<string, any> }>(this.env, url, ACCOUNT_KEY, { at: 0, reason: '', balances: {}, positions: {} });
+    for (const b of u.a.B || []) snap.balances[b.a] = { walletBalance: Number(b.wb), crossWalletBalance: Number(b.cw), balanceChange: Number(b.bc || 0) };
+    for (const p of u.a.P || []) {
+      const k = p.ps && p.ps !== 'BOTH' ? `${p.s}:${p.ps}` : p.s;
+      if (Number(p.pa) === 0) delete snap.positions[k];
+      else snap.positions[k] = { symbol: p.s, positionAmt: Number(p.pa), entryPrice: Number(p.ep), unrealizedProfit: Number(p.up), marginType: p.mt, isolatedWallet: Number(p.iw), positionSide: p.ps };
+    }
+    snap.at = u.E;
+    snap.reason = u.a.m;
+    await kvPutJson(this.env, url, ACCOUNT_KEY, snap);
+  }
+
+  private async onMarginCall(url: URL, m: AsterMarginCall) {
+    await appendLog(this.env, url, {
+      type: 'vibe_margin_call',
+      crossWalletBalance: m.cw !== undefined ? Number(m.cw) : undefined,
+      positions: (m.p || []).map(p => ({ symbol: p.s, positionSide: p.ps, positionAmt: Number(p.pa), markPrice: Number(p.mp), unrealizedPnl: Number(p.up), maintMargin: Number(p.mm) }))
+    });
+  }
+}
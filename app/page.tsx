@@ -28,15 +28,18 @@ export default function Page() {
 function useArenaData() {
   const [equity, setEquity] = useState<any[]>([]);
   const [logs, setLogs] = useState<any[]>([]);
+  const [drawdown, setDrawdown] = useState<any>(null);
 
   async function refresh() {
     try {
-      const [eq, l] = await Promise.all([
+      const [eq, l, st] = await Promise.all([
         fetch(`${API_BASE}/api/vibe/equity?t=${Date.now()}`, { cache: 'no-store', mode: 'cors' }).then(r => r.json()).catch(() => ({ equity: [] })),
         fetch(`${API_BASE}/api/vibe/logs?t=${Date.now()}`, { cache: 'no-store', mode: 'cors' }).then(r => r.json()).catch(() => ({ logs: [] })),
+        fetch(`${API_BASE}/api/vibe/status?t=${Date.now()}`, { cache: 'no-store', mode: 'cors' }).then(r => r.json()).catch(() => ({})),
       ]);
       if (Array.isArray(eq?.equity)) setEquity(eq.equity);
       if (Array.isArray(l?.logs)) setLogs(l.logs);
+      if (st?.ok) setDrawdown(st.drawdown ?? null);
     } catch {}
   }
 
@@ -46,11 +49,11 @@ function useArenaData() {
     return () => clearInterval(id);
   }, []);
 
-  return { equity, logs };
+  return { equity, logs, drawdown };
 }
 
 function ChartPane() {
-  const { equity } = useArenaData();
+  const { equity, drawdown } = useArenaData();
   // Use all samples returned (anchor + daily shards) so left edge stays fixed
   const pointsAll = Array.isArray(equity) ? equity : [];
   
@@ -317,6 +320,11 @@ function ChartPane() {
   return (
     <div ref={wrapRef} style={{ width: '100%', height: '100%', background: 'var(--surface)', position: 'relative', overflow: 'hidden' }}>
       <canvas ref={canvasRef} />
+      {drawdown && (
+        <div style={{ position: 'absolute', top: 10, right: 12, zIndex: 2, padding: '4px 8px', border: '1px solid var(--border)', borderRadius: 8, background: 'var(--surface)', fontWeight: 700, fontSize: 12, color: drawdown.tier > 0 ? '#b91c1c' : 'var(--muted)' }}>
+          Drawdown {Number(drawdown.drawdownPct || 0).toFixed(2)}% · {drawdown.tier > 0 ? (drawdown.sizeMult > 0 ? `Tier ${drawdown.tier}: size ×${drawdown.sizeMult}` : `Tier ${drawdown.tier}: entries paused`) : 'Full size'}
+        </div>
+      )}
       <div ref={labelRef} style={{ position: 'absolute', zIndex: 3, pointerEvents: 'none', display: 'inline-flex', alignItems: 'center', gap: 8, padding: '4px 8px', border: '1px solid var(--border)', borderRadius: 8, background: 'var(--surface)', boxShadow: '0 2px 8px rgba(0,0,0,.06)', fontWeight: 800, fontSize: 12, color: 'var(--text)' }}>
         <img src="/naemu2.png" alt="" style={{ width: 28, height: 28, opacity: .9 }} />
         <span data-val>$0</span>
@@ -504,6 +512,7 @@ function ActivityPanel() {
                     const modelDisplay = (String(modelName).toLowerCase() === 'manual') ? 'qwen2.5-32b-instruct' : modelName;
                     const baseLower = base.toLowerCase();
                     const iconSize = baseLower==='eth'?16:14;
+                    const stops = Array.isArray(t.stopHistory) && t.stopHistory.length > 1 ? t.stopHistory.map((m:any) => fmtUsdSep(Number(m.stopLoss), priceDigits(Number(m.stopLoss)))).join(' → ') : null;
                     return (
                       <div>
                         <div style={{ display: 'flex', alignItems: 'center', gap: 4, fontWeight: 800, marginBottom: 4, whiteSpace:'nowrap' }}>
@@ -518,6 +527,8 @@ function ActivityPanel() {
                           <div>Notional: {notIn && notOut ? `${notIn} → ${notOut}` : (notIn ? `${notIn} → —` : '—')}</div>
                           <div>Holding time: {hold}</div>
                         </div>
+                        {stops && (<div style={{ fontSize: 13, marginTop: 6 }}>Stop: {stops}</div>)}
+                        {typeof t.leg === 'number' && (<div style={{ fontSize: 13, marginTop: 6 }}>Partial close at take-profit level {t.leg}</div>)}
                         <div style={{ marginTop: 8, fontWeight: 800 }}>Net P&L: <span style={{ color: pnlColor }}>{pnl}</span></div>
                       </div>
                     );